@@ -0,0 +1,19 @@
+// The few Deno APIs the shared edge-function code reaches for, backed by Node, so scripts can run that code as is.
+// The environment is this object rather than process.env: provider calls replay from the committed fixtures and
+// nothing a developer has exported (API keys, PROVIDER_TRANSPORT=live) can send a check to the network.
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+
+export const denoEnv: Record<string, string | undefined> = {
+  PROVIDER_TRANSPORT: 'replay',
+  PROVIDER_FIXTURES_DIR: resolve('supabase/functions/_fixtures/providers'),
+};
+
+Object.assign(globalThis, {
+  Deno: {
+    env: { get: (name: string) => denoEnv[name] },
+    readTextFile: (path: string) => readFile(path, 'utf8'),
+    writeTextFile: (path: string, text: string) => writeFile(path, text),
+    mkdir: (path: string, options?: { recursive?: boolean }) => mkdir(path, options),
+  },
+});
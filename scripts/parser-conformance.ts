@@ -0,0 +1,327 @@
+// Runs every listing parser against the golden fixtures in supabase/functions/_fixtures/parsers and reports
+// field-level differences from the expected output.
+//
+//   npm run parsers:check                          check every case
+//   npm run parsers:check -- craigslist            only cases whose "<parser>/<case>" contains the filter
+//   npm run parsers:check -- --update [filter]     rewrite the expected files from the current parsers
+//   npm run parsers:check -- --import <fixture.json> <parser> <case>
+//                                                  turn a recorded Firecrawl response into a new case
+//
+// A case is an input file (`<case>.md`, `<case>.txt` for line-per-input parsers, or `<case>.json` for cases that
+// describe a call) next to `<case>.expected.json`. Nothing here touches the network: provider calls replay from
+// supabase/functions/_fixtures/providers. Every page case (`.md`) says where it came from in sources.json.
+import { denoEnv } from './denoRuntime.ts';
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import process from 'node:process';
+import { parseEstateSalesWithStats } from '../supabase/functions/_shared/listings/estatesales.ts';
+import { parseEstateSaleDetail } from '../supabase/functions/_shared/listings/estatesalesDetail.ts';
+import { parseCraigslistListingsWithStats } from '../supabase/functions/_shared/listings/craigslist.ts';
+import { parseCraigslistPosting } from '../supabase/functions/_shared/listings/craigslistPosting.ts';
+import { parseSaleDate, parseSaleDates } from '../supabase/functions/_shared/listings/dates.ts';
+import { extractAddressFromMarkdown, extractCardFields } from '../supabase/functions/_shared/listings/markdownFields.ts';
+import { applyResultFilters, defaultResultFilters, facetCounts } from '../supabase/functions/_shared/listings/filters.ts';
+import { parseKeywordQuery, searchListings } from '../supabase/functions/_shared/listings/keywords.ts';
+import { resolveListings } from '../supabase/functions/_shared/listings/resolve.ts';
+import { savedSearchMatches, withinSavedRadius } from '../supabase/functions/_shared/savedSearches.ts';
+import { decodeSearchState, defaultSearchState, encodeSearchState } from '../src/lib/searchUrl.ts';
+import { CreditBudget } from '../supabase/functions/_shared/crawl.ts';
+import { scrapeUrls } from '../supabase/functions/_shared/scrape.ts';
+import type { PageFetch } from '../supabase/functions/_shared/scrapeBackends.ts';
+import { createGeocodeProvider } from '../supabase/functions/_shared/geocodeProviders.ts';
+import { providerFetch, recorded } from '../supabase/functions/_shared/transport.ts';
+
+const FIXTURES_DIR = resolve('supabase/functions/_fixtures/parsers');
+const SOURCES_PATH = join(FIXTURES_DIR, 'sources.json');
+
+// Where a page case came from: a page captured with --import (its URL and when it was recorded), or hand-written
+type CaseSource = { source: 'captured'; url: string; capturedAt: string } | { source: 'hand-written'; capturedAt: null };
+
+const readSources = async (): Promise<Record<string, CaseSource>> =>
+  JSON.parse(await readFile(SOURCES_PATH, 'utf8').catch(() => '{}'));
+
+// Relative dates ("Oct 17", "ended yesterday") are resolved against this moment so results don't drift with the calendar
+const NOW = new Date(2025, 9, 15, 12, 0, 0);
+
+const localDate = (date: Date | null) => date
+  ? `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+  : null;
+
+const inputLines = (text: string) => text.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+
+// What a recorded provider call gives the code that consumes it. A case names one call:
+//   { "geocode": "mapbox" | "google", "addresses": [...] }    geocoded through createGeocodeProvider
+//   { "firecrawl": "<url>", "parser": "<parser>" }             a scraped page, run through one of the parsers below
+//   { "openai": "embeddings", "model": "...", "input": [...] } the embeddings request generate-embeddings sends
+async function replayProviderCall(call: Record<string, unknown>): Promise<unknown> {
+  if (typeof call.geocode === 'string') {
+    denoEnv.GEOCODE_PROVIDER = call.geocode;
+    const geocoder = createGeocodeProvider();
+    if (!geocoder) throw new Error(`No ${call.geocode} geocoder`);
+    return Promise.all((call.addresses as string[]).map((address) => geocoder.geocode(address)));
+  }
+  if (typeof call.firecrawl === 'string') {
+    // The key firecrawlBackend records page scrapes under
+    const page = await recorded<{ markdown?: string }>('firecrawl', `scrape markdown ${call.firecrawl}`, () =>
+      Promise.reject(new Error('Only replayed here')));
+    return PARSERS[call.parser as string](page.markdown || '');
+  }
+  if (call.openai === 'embeddings') {
+    const response = await providerFetch('openai', 'https://api.openai.com/v1/embeddings', {
+      method: 'POST',
+      body: JSON.stringify({ model: call.model, input: call.input }),
+    });
+    const data = await response.json();
+    return { status: response.status, dimensions: (data.data || []).map((d: { embedding: number[] }) => d.embedding.length) };
+  }
+  throw new Error(`Unknown provider call ${JSON.stringify(call)}`);
+}
+
+// A crawl step against a scripted Firecrawl: each URL answers with its listed responses in turn (the last one
+// repeats). One credit is reserved per URL, as crawlPaginated does, and retries charge the rest.
+async function scrapeWithBudget({ budget: limit, policy, responses }: {
+  budget: number;
+  policy: Record<string, unknown>;
+  responses: Record<string, PageFetch[]>;
+}) {
+  const calls = new Map<string, number>();
+  const backend = {
+    id: 'firecrawl',
+    fetchPage: (url: string) => {
+      const n = calls.get(url) || 0;
+      calls.set(url, n + 1);
+      return Promise.resolve(responses[url][Math.min(n, responses[url].length - 1)]);
+    },
+  };
+  const budget = new CreditBudget(limit);
+  const urls = Object.keys(responses);
+  const granted = urls.slice(0, budget.take(urls.length));
+  const results = await scrapeUrls(backend, granted, { delayMs: 0, backoffMs: 0, respectRobots: false, ...policy }, budget);
+  budget.refundUnspent(results);
+  return {
+    creditsUsed: budget.used,
+    firecrawlCalls: Array.from(calls.values()).reduce((sum, n) => sum + n, 0),
+    results: results.map(({ url, success, failure, attempts }) => ({ url, success, failure, attempts })),
+  };
+}
+
+// Parser name (the fixture subdirectory) -> what its output looks like for one input file
+const PARSERS: Record<string, (input: string) => unknown> = {
+  'estatesales': (markdown) => {
+    const { listings, stats } = parseEstateSalesWithStats(markdown, NOW);
+    // Each listing carries its raw card markdown; the input file already has it
+    return { stats, listings: listings.map(({ markdown: _card, ...listing }) => listing) };
+  },
+  'estatesales-detail': (markdown) => parseEstateSaleDetail(markdown),
+  'craigslist': (markdown) => parseCraigslistListingsWithStats(markdown),
+  'craigslist-posting': (markdown) => parseCraigslistPosting(markdown),
+  // One date string per line
+  'sale-dates': (text) => Object.fromEntries(inputLines(text).map(line => [line, {
+    date: localDate(parseSaleDate(line, NOW)),
+    dates: parseSaleDates(line, NOW).map(localDate),
+  }])),
+  'card-fields': (markdown) => extractCardFields(markdown),
+  'markdown-address': (markdown) => extractAddressFromMarkdown(markdown),
+  'provider-replay': (json) => replayProviderCall(JSON.parse(json)),
+  // { "listings": [...] } -> one entry per sale, naming the listings folded into it and why
+  'resolve': (json) => resolveListings(JSON.parse(json).listings).map(({ id, mergedFrom }) => ({
+    id,
+    mergedFrom: (mergedFrom || []).map(({ id, reasons }) => ({ id, reasons })),
+  })),
+  // { "filters": {...}, "listings": [...] } -> what the filters leave and every facet's counts, the filters laid
+  // over the default window
+  'facets': (json) => {
+    const { filters: chosen, listings } = JSON.parse(json);
+    const filters = { ...defaultResultFilters(NOW), ...chosen };
+    return {
+      matched: applyResultFilters(listings, filters, NOW).map(listing => listing.id),
+      counts: facetCounts(listings, filters, NOW),
+    };
+  },
+  // { "query": "...", "listings": [...] } -> the parsed query and the ranked matches
+  'keywords': (json) => {
+    const { query, listings } = JSON.parse(json);
+    const parsed = parseKeywordQuery(query);
+    return {
+      query: parsed,
+      matches: searchListings(listings, parsed).map(({ listing, score, snippet }) => ({ id: listing.id, score, snippet })),
+    };
+  },
+  // { "state": {...} } -> the query string for that state (over the defaults) and whether it decodes back to it;
+  // { "query": "..." } -> the state a hand-written query string decodes to and how it encodes again
+  'search-url': (json) => {
+    const input = JSON.parse(json);
+    if (typeof input.query === 'string') {
+      const state = decodeSearchState(new URLSearchParams(input.query), NOW);
+      return { state, query: encodeSearchState(state, NOW).toString() };
+    }
+    const defaults = defaultSearchState(NOW);
+    // JSON has no undefined, so a null date in the input stands for an open end
+    const filters = Object.fromEntries(
+      Object.entries({ ...defaults.filters, ...input.state.filters }).map(([key, value]) => [key, value ?? undefined]),
+    );
+    const state = { ...defaults, ...input.state, filters };
+    const query = encodeSearchState(state, NOW).toString();
+    const decoded = decodeSearchState(new URLSearchParams(query), NOW);
+    return { query, roundTrips: JSON.stringify(decoded) === JSON.stringify(state), decoded };
+  },
+  // { "search": {...}, "listings": [...], "miles": { "<id>": n } } -> the ids a run of the saved search records,
+  // given each listing's distance from the search's location
+  // { "budget": n, "policy": {...}, "responses": { "<url>": [PageFetch, ...] } } -> credits charged and attempts made
+  'credit-budget': (json) => scrapeWithBudget(JSON.parse(json)),
+  'saved-search': (json) => {
+    const { search, listings, miles } = JSON.parse(json);
+    return withinSavedRadius(search, savedSearchMatches(search, listings, NOW), miles || {}).map(listing => listing.id);
+  },
+};
+
+interface FixtureCase {
+  parser: string;
+  name: string;
+  inputPath: string;
+  expectedPath: string;
+}
+
+async function listCases(filter?: string): Promise<FixtureCase[]> {
+  const cases: FixtureCase[] = [];
+  for (const parser of Object.keys(PARSERS).sort()) {
+    const dir = join(FIXTURES_DIR, parser);
+    const files = await readdir(dir).catch(() => [] as string[]);
+    for (const file of files.sort()) {
+      const input = file.match(/^(.+)\.(md|txt|json)$/);
+      if (!input || file.endsWith('.expected.json')) continue;
+      const name = input[1];
+      if (filter && !`${parser}/${name}`.includes(filter)) continue;
+      cases.push({ parser, name, inputPath: join(dir, file), expectedPath: join(dir, `${name}.expected.json`) });
+    }
+  }
+  return cases;
+}
+
+const show = (value: unknown) => value === undefined ? '(missing)' : JSON.stringify(value);
+
+// Every leaf where `actual` differs from `expected`, as "path: expected X, got Y"
+function diff(expected: unknown, actual: unknown, path = ''): string[] {
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const diffs: string[] = [];
+    for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+      diffs.push(...diff(expected[i], actual[i], `${path}[${i}]`));
+    }
+    return diffs;
+  }
+  if (expected && actual && typeof expected === 'object' && typeof actual === 'object' && !Array.isArray(expected) && !Array.isArray(actual)) {
+    const keys = Array.from(new Set([...Object.keys(expected), ...Object.keys(actual)]));
+    return keys.flatMap(key => diff(
+      (expected as Record<string, unknown>)[key],
+      (actual as Record<string, unknown>)[key],
+      path ? `${path}.${key}` : key,
+    ));
+  }
+  return JSON.stringify(expected) === JSON.stringify(actual) ? [] : [`${path || '(root)'}: expected ${show(expected)}, got ${show(actual)}`];
+}
+
+// Round-trips through JSON so the comparison sees exactly what the expected file can hold (no undefined fields)
+const runParser = async (fixtureCase: FixtureCase) =>
+  JSON.parse(JSON.stringify(await PARSERS[fixtureCase.parser](await readFile(fixtureCase.inputPath, 'utf8')) ?? null));
+
+const writeExpected = (path: string, output: unknown) => writeFile(path, JSON.stringify(output, null, 2) + '\n');
+
+async function check(filter?: string): Promise<number> {
+  const cases = await listCases(filter);
+  const sources = await readSources();
+  let failed = 0;
+
+  for (const fixtureCase of cases) {
+    const label = `${fixtureCase.parser}/${fixtureCase.name}`;
+    if (fixtureCase.inputPath.endsWith('.md') && !sources[label]) {
+      failed++;
+      console.log(`✗ ${label}: not listed in sources.json (say whether it is a captured page or hand-written)`);
+      continue;
+    }
+    const actual = await runParser(fixtureCase);
+    let expected: unknown;
+    try {
+      expected = JSON.parse(await readFile(fixtureCase.expectedPath, 'utf8'));
+    } catch {
+      failed++;
+      console.log(`✗ ${label}: no ${fixtureCase.name}.expected.json (run with --update to create it)`);
+      continue;
+    }
+
+    const diffs = diff(expected, actual);
+    if (diffs.length === 0) {
+      console.log(`✓ ${label}`);
+      continue;
+    }
+    failed++;
+    console.log(`✗ ${label}: ${diffs.length} field${diffs.length === 1 ? '' : 's'} differ`);
+    diffs.forEach(line => console.log(`    ${line}`));
+  }
+
+  const pages = cases.filter(fixtureCase => fixtureCase.inputPath.endsWith('.md'));
+  const captured = pages.filter(fixtureCase => sources[`${fixtureCase.parser}/${fixtureCase.name}`]?.source === 'captured');
+  console.log(`\n${cases.length - failed} of ${cases.length} cases match (${captured.length} of ${pages.length} pages captured, the rest hand-written)`);
+  return failed;
+}
+
+async function update(filter?: string) {
+  for (const fixtureCase of await listCases(filter)) {
+    await writeExpected(fixtureCase.expectedPath, await runParser(fixtureCase));
+    console.log(`wrote ${fixtureCase.parser}/${fixtureCase.name}.expected.json`);
+  }
+}
+
+// Stand-ins for the contact details a captured page carries; street addresses stay, the parsers need them
+const scrubPersonalData = (markdown: string) => markdown
+  .replace(/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, 'seller@example.com')
+  .replace(/\(?\b\d{3}\)?[\s.-]?\d{3}[\s.-]\d{4}\b/g, '555-555-0100');
+
+// Copies the markdown out of a fixture recorded with PROVIDER_TRANSPORT=record, with emails and phone numbers
+// replaced, records its URL and capture date in sources.json, and snapshots what the parser makes of it. The
+// snapshot is only as right as the parser is today, and the scrub only catches the obvious, so read both through
+// before committing.
+async function importFixture(fixturePath: string, parser: string, name: string) {
+  if (!PARSERS[parser]) throw new Error(`Unknown parser "${parser}" (one of: ${Object.keys(PARSERS).join(', ')})`);
+  const fixture = JSON.parse(await readFile(fixturePath, 'utf8'));
+  const markdown = fixture.result?.markdown;
+  if (typeof markdown !== 'string') throw new Error(`${fixturePath} holds no recorded markdown`);
+
+  const fixtureCase: FixtureCase = {
+    parser,
+    name,
+    inputPath: join(FIXTURES_DIR, parser, `${name}.md`),
+    expectedPath: join(FIXTURES_DIR, parser, `${name}.expected.json`),
+  };
+  const scrubbed = scrubPersonalData(markdown);
+  await writeFile(fixtureCase.inputPath, scrubbed.endsWith('\n') ? scrubbed : scrubbed + '\n');
+  await writeExpected(fixtureCase.expectedPath, await runParser(fixtureCase));
+
+  const sources = await readSources();
+  sources[`${parser}/${name}`] = {
+    source: 'captured',
+    url: String(fixture.key).replace(/^scrape \w+ /, ''),
+    capturedAt: String(fixture.recordedAt).slice(0, 10),
+  };
+  const sorted = Object.fromEntries(Object.entries(sources).sort(([a], [b]) => a.localeCompare(b)));
+  await writeFile(SOURCES_PATH, JSON.stringify(sorted, null, 2) + '\n');
+  console.log(`imported ${fixture.key} as ${parser}/${name}; review ${name}.md and ${name}.expected.json before committing`);
+}
+
+async function main(args: string[]) {
+  if (args[0] === '--import') {
+    const [, fixturePath, parser, name] = args;
+    if (!fixturePath || !parser || !name) throw new Error('Usage: --import <fixture.json> <parser> <case>');
+    await importFixture(fixturePath, parser, name);
+    return;
+  }
+  if (args[0] === '--update') {
+    await update(args[1]);
+    return;
+  }
+  if (await check(args[0]) > 0) process.exitCode = 1;
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
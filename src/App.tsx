@@ -4,7 +4,10 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import Inbox from "./pages/Inbox";
 import NotFound from "./pages/NotFound";
+import Sale from "./pages/Sale";
+import SavedRoute from "./pages/SavedRoute";
 
 const queryClient = new QueryClient();
 
@@ -14,7 +17,14 @@ const App = () => (
     <Sonner />
     <BrowserRouter>
       <Routes>
-        <Route path="/" element={<Index />} />
+        {/* One Index for both, so the search isn't remounted when it moves from / to /search */}
+        <Route element={<Index />}>
+          <Route path="/" />
+          <Route path="/search" />
+        </Route>
+        <Route path="/sale/:id" element={<Sale />} />
+        <Route path="/route/:id" element={<SavedRoute />} />
+        <Route path="/inbox" element={<Inbox />} />
         {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
         <Route path="*" element={<NotFound />} />
       </Routes>
@@ -4,34 +4,8 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { CheckSquare, Square, Sparkles } from 'lucide-react';
-
-interface AuctionType {
-  id: string;
-  label: string;
-  category: string;
-}
-
-const auctionTypes: AuctionType[] = [
-  // Estate Sales
-  { id: 'estate-sales', label: 'Estate Sales', category: 'Estate Sales' },
-  { id: 'moving-sales', label: 'Moving Sales', category: 'Estate Sales' },
-  { id: 'moved-offsite-warehouse', label: 'Moved Offsite To Warehouse', category: 'Estate Sales' },
-  { id: 'by-appointment', label: 'By Appointment', category: 'Estate Sales' },
-  { id: 'online-estate-sales', label: 'Online Estate Sales', category: 'Estate Sales' },
-  
-  // Auctions
-  { id: 'auctions', label: 'Auctions', category: 'Auctions' },
-  { id: 'auction-house', label: 'Auction House', category: 'Auctions' },
-  { id: 'online-only-auctions', label: 'Online Only Auctions', category: 'Auctions' },
-  
-  // Additional Liquidations
-  { id: 'business-closings', label: 'Business Closings', category: 'Additional Liquidations' },
-  { id: 'moved-offsite-store', label: 'Moved Offsite To Store', category: 'Additional Liquidations' },
-  { id: 'outside-sales', label: 'Outside Sales', category: 'Additional Liquidations' },
-  { id: 'single-item-collections', label: 'Single Item Type Collections', category: 'Additional Liquidations' },
-  { id: 'buyouts-cleanouts', label: 'Buyouts Or Cleanouts', category: 'Additional Liquidations' },
-  { id: 'demolition-sales', label: 'Demolition Sales', category: 'Additional Liquidations' },
-];
+// Shared with the parsers, which classify every listing into one of these types
+import { SALE_TYPES } from '@shared/listings/saleTypes';
 
 interface AuctionTypeFilterProps {
   selectedTypes: string[];
@@ -41,7 +15,7 @@ interface AuctionTypeFilterProps {
 export const AuctionTypeFilter = ({ selectedTypes, onTypesChange }: AuctionTypeFilterProps) => {
   const [isExpanded, setIsExpanded] = useState(false);
   
-  const categories = Array.from(new Set(auctionTypes.map(type => type.category)));
+  const categories = Array.from(new Set(SALE_TYPES.map(type => type.category)));
   
   const handleTypeToggle = (typeId: string) => {
     if (selectedTypes.includes(typeId)) {
@@ -52,15 +26,15 @@ export const AuctionTypeFilter = ({ selectedTypes, onTypesChange }: AuctionTypeF
   };
   
   const handleSelectAll = () => {
-    if (selectedTypes.length === auctionTypes.length) {
+    if (selectedTypes.length === SALE_TYPES.length) {
       onTypesChange([]);
     } else {
-      onTypesChange(auctionTypes.map(type => type.id));
+      onTypesChange(SALE_TYPES.map(type => type.id));
     }
   };
   
   const handleCategoryToggle = (category: string) => {
-    const categoryTypes = auctionTypes.filter(type => type.category === category);
+    const categoryTypes = SALE_TYPES.filter(type => type.category === category);
     const allCategorySelected = categoryTypes.every(type => selectedTypes.includes(type.id));
     
     if (allCategorySelected) {
@@ -95,13 +69,13 @@ export const AuctionTypeFilter = ({ selectedTypes, onTypesChange }: AuctionTypeF
             size="sm"
             onClick={() => setIsExpanded(true)}
           >
-            Filter ({selectedTypes.length}/{auctionTypes.length})
+            Filter ({selectedTypes.length}/{SALE_TYPES.length})
           </Button>
         </div>
         {selectedTypes.length > 0 && (
           <div className="flex flex-wrap gap-1">
             {selectedTypes.slice(0, 3).map(typeId => {
-              const type = auctionTypes.find(t => t.id === typeId);
+              const type = SALE_TYPES.find(t => t.id === typeId);
               return type ? (
                 <Badge key={typeId} variant="secondary" className="text-xs">
                   {type.label}
@@ -134,7 +108,7 @@ export const AuctionTypeFilter = ({ selectedTypes, onTypesChange }: AuctionTypeF
               size="sm"
               onClick={handleSelectAll}
             >
-              {selectedTypes.length === auctionTypes.length ? 'Deselect All' : 'Select All'}
+              {selectedTypes.length === SALE_TYPES.length ? 'Deselect All' : 'Select All'}
             </Button>
             <Button
               type="button"
@@ -147,12 +121,12 @@ export const AuctionTypeFilter = ({ selectedTypes, onTypesChange }: AuctionTypeF
           </div>
         </div>
         <div className="text-sm text-muted-foreground">
-          Choose the types of sales and auctions you want to find
+          Choose the types of sales and auctions you want to find (none selected searches every type)
         </div>
       </CardHeader>
       <CardContent className="space-y-6">
         {categories.map(category => {
-          const categoryTypes = auctionTypes.filter(type => type.category === category);
+          const categoryTypes = SALE_TYPES.filter(type => type.category === category);
           const allCategorySelected = categoryTypes.every(type => selectedTypes.includes(type.id));
           const someCategorySelected = categoryTypes.some(type => selectedTypes.includes(type.id));
           
@@ -1,189 +1,51 @@
 import React from "react";
+import { Link } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { MapPin, Calendar, Clock, ExternalLink, Tag, CheckCircle, Store, Star, Phone } from 'lucide-react';
+import { MapPin, Calendar, Clock, ExternalLink, Tag, CheckCircle, Store, Star, Phone, CreditCard, Navigation, Car, Link2 } from 'lucide-react';
+import { listingSources } from '@/utils/sources/registry';
+import type { Listing } from '@shared/listings/types';
+import { saleTypeLabel } from '@shared/listings/saleTypes';
+import { extractCardFields } from '@shared/listings/markdownFields';
+import { formatDistanceToNow } from 'date-fns';
+import { formatDistance, type ListingDistance } from '@/lib/distance';
 
-interface EstateSale {
-  title?: string;
-  date?: string;
-  address?: string;
-  description?: string;
-  url?: string;
-  status?: string;
-  company?: string;
-  distance?: string;
-  markdown?: string;
-  city?: string;
-  state?: string;
-  zipCode?: string;
-  streetAddress?: string;
-  uniqueId?: string;
-  imageUrl?: string;
-  type?: 'estate_sale' | 'thrift_store';
-  businessHours?: string;
-  phone?: string;
-  rating?: number;
-}
+// `text` with every match of `pattern` wrapped in <mark>
+const highlighted = (text: string, pattern?: RegExp | null): React.ReactNode => {
+  if (!pattern || !text) return text;
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (match[0].length === 0) continue;
+    if (index > last) parts.push(text.slice(last, index));
+    parts.push(<mark key={index} className="rounded-sm bg-vintage-gold/30 px-0.5 text-foreground">{match[0]}</mark>);
+    last = index + match[0].length;
+  }
+  if (parts.length === 0) return text;
+  if (last < text.length) parts.push(text.slice(last));
+  return parts;
+};
 
 interface EstateSaleCardProps {
-  sale: EstateSale;
+  sale: Listing;
   isSelected?: boolean;
-  onSelect?: (sale: EstateSale, selected: boolean) => void;
+  // First seen after the user's previous search for this location
+  isNew?: boolean;
+  // Measured from the searched location; the site's own distance text is shown until it is known
+  distance?: ListingDistance;
+  // Keyword hits to mark in the title and description, and a hit from text the card doesn't otherwise show
+  highlight?: RegExp | null;
+  matchSnippet?: string;
+  onSelect?: (sale: Listing, selected: boolean) => void;
 }
 
-export const EstateSaleCard = React.memo(({ sale, isSelected = false, onSelect }: EstateSaleCardProps) => {
+export const EstateSaleCard = React.memo(({ sale, isSelected = false, isNew = false, distance, highlight, matchSnippet, onSelect }: EstateSaleCardProps) => {
   // Extract data from markdown if other fields are not available
-  const extractFromMarkdown = (markdown: string): { title: string; date: string; address: string; company: string; description: string; city: string; state: string } => {
-    if (!markdown) return { title: 'Estate Sale', date: 'Date TBD', address: 'Address TBD', company: '', description: 'No details available', city: '', state: '' };
-    
-    // Clean the markdown by removing navigation and technical elements
-    const cleanText = markdown
-      .replace(/arrow_back/g, '')
-      .replace(/\\_/g, ' ')
-      .replace(/List of.*?search/g, '')
-      .replace(/https?:\/\/[^\s)]+/g, '') // Remove URLs
-      .replace(/\([^)]*maps\.google[^)]*\)/g, '') // Remove Google Maps references
-      .replace(/\([^)]*https?[^)]*\)/g, '') // Remove URLs in parentheses
-      .replace(/#{1,6}\s*/g, '') // Remove markdown headers
-      .replace(/\n\s*\n/g, '\n') // Remove double newlines
-      .trim();
-
-    const lines = cleanText.split('\n')
-      .map(line => line.trim())
-      .filter(line => 
-        line.length > 0 && 
-        !line.toLowerCase().includes('search') &&
-        !line.toLowerCase().includes('arrow') &&
-        !line.toLowerCase().includes('maps.google') &&
-        !line.includes('q=') &&
-        line.length < 200 // Filter out very long technical lines
-      );
-
-    let title = '';
-    let date = '';
-    let address = '';
-    let company = '';
-    let description = '';
-    let city = '';
-    let state = '';
-    
-    // Extract meaningful information
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const lowerLine = line.toLowerCase();
-      
-      // Skip technical/navigation content
-      if (lowerLine.includes('http') || 
-          lowerLine.includes('maps') || 
-          lowerLine.includes('search') ||
-          lowerLine.includes('arrow') ||
-          line.length < 5) {
-        continue;
-      }
-      
-      // Company/Estate Sale organizer
-      if (!company && (
-        lowerLine.includes('estate sales') ||
-        lowerLine.includes('family affair') ||
-        lowerLine.includes('four star') ||
-        lowerLine.includes('presented by') ||
-        lowerLine.includes('organized by')
-      )) {
-        company = line;
-        continue;
-      }
-      
-      // Title - look for sale names or descriptive titles
-      if (!title && (
-        lowerLine.includes('sale') ||
-        lowerLine.includes('estate') ||
-        (line.length > 15 && line.length < 80 && !lowerLine.includes('drive') && !lowerLine.includes('street'))
-      )) {
-        title = line;
-        continue;
-      }
-      
-      // Address - look for street addresses with numbers
-      if (!address && (
-        line.match(/\d+\s+[A-Za-z\s]+(dr|drive|st|street|ave|avenue|rd|road|ln|lane|way|circle|ct|court)/i)
-      )) {
-        // Clean up address formatting
-        const cleanAddress = line
-          .replace(/\\\\/g, ' ')
-          .replace(/\s+/g, ' ')
-          .replace(/^\[|\]$/g, '') // Remove leading/trailing brackets
-          .trim();
-        
-        address = cleanAddress;
-        
-        // Extract city and state from address
-        const cityStateMatch = cleanAddress.match(/([^,]+),\s*([A-Z]{2})/i);
-        if (cityStateMatch) {
-          city = cityStateMatch[1].trim();
-          state = cityStateMatch[2];
-        }
-        continue;
-      }
-      
-      // Extract city and state separately if not found in address
-      if (!city && line.match(/([A-Z][a-z\s]+),?\s*([A-Z]{2})/i)) {
-        const cityStateMatch = line.match(/([A-Z][a-z\s]+),?\s*([A-Z]{2})/i);
-        if (cityStateMatch) {
-          city = cityStateMatch[1].trim();
-          state = cityStateMatch[2];
-        }
-        continue;
-      }
-      
-      // Date - look for date patterns
-      if (!date && (
-        line.match(/\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+\d{1,2}/i) ||
-        line.match(/\d{1,2}\/\d{1,2}\/\d{2,4}/) ||
-        line.match(/\d{1,2}-\d{1,2}-\d{2,4}/)
-      )) {
-        date = line;
-        continue;
-      }
-      
-      // Description - longer meaningful text
-      if (!description && line.length > 20 && line.length < 150 && 
-          !lowerLine.includes('estate sale')) {
-        description = line;
-      }
-    }
-    
-    // Fallbacks and cleanup
-    if (!title && company) {
-      title = company.replace(/estate sales?/gi, 'Estate Sale').trim();
-    }
-    
-    if (!title) {
-      title = 'Estate Sale';
-    }
-    
-    if (!company && title.toLowerCase().includes('estate')) {
-      company = 'Estate Sale';
-    }
-    
-    if (!description) {
-      description = 'Estate sale - contact organizer for details.';
-    }
-    
-    return { 
-      title: title.trim(), 
-      date: date.trim() || 'Date TBD', 
-      address: address.trim() || '', 
-      company: company.trim(),
-      description: description.trim(),
-      city: city.trim(),
-      state: state.trim()
-    };
-  };
-
-  const extracted = sale.markdown ? extractFromMarkdown(sale.markdown) : { 
+  const extracted = sale.markdown ? extractCardFields(sale.markdown) : { 
     title: '', 
     date: '', 
     address: '', 
@@ -197,7 +59,7 @@ export const EstateSaleCard = React.memo(({ sale, isSelected = false, onSelect }
   const displayDate = sale.date || extracted.date;
   let displayAddress = sale.address || extracted.address;
   const displayCompany = sale.company || extracted.company;
-  const displayDescription = sale.description || extracted.description;
+  const displayDescription = sale.detail?.description || sale.description || extracted.description;
   const displayCity = sale.city || extracted.city;
   const displayState = sale.state || extracted.state;
 
@@ -291,7 +153,8 @@ export const EstateSaleCard = React.memo(({ sale, isSelected = false, onSelect }
             )}
             <div className="flex-1">
               <CardTitle className="font-display text-base sm:text-lg font-semibold text-foreground leading-tight">
-                {displayTitle}
+                {highlighted(displayTitle, highlight)}
+                {isNew && <Badge className="ml-2 align-middle text-[10px] px-1.5 py-0">New</Badge>}
                 {isSelected && <CheckCircle className="inline-block w-3 h-3 sm:w-4 sm:h-4 ml-2 text-vintage-gold" />}
               </CardTitle>
               {displayCompany && (
@@ -312,13 +175,31 @@ export const EstateSaleCard = React.memo(({ sale, isSelected = false, onSelect }
       
       <CardContent className="space-y-2 sm:space-y-3 p-3 sm:p-6 pt-0">
         <div className="space-y-2">
-          {sale.type !== 'thrift_store' && (
+          {sale.type !== 'thrift_store' && (sale.detail?.days.length ? (
+            <div className="flex items-start gap-2 text-xs sm:text-sm">
+              <Calendar className="w-3 h-3 sm:w-4 sm:h-4 text-estate-red flex-shrink-0 mt-0.5" />
+              <ul className="text-foreground space-y-0.5">
+                {sale.detail.days.map(day => (
+                  <li key={`${day.date}-${day.hours}`}>
+                    {day.weekday ? `${day.weekday}, ` : ''}{day.date} · <span className="text-muted-foreground">{day.hours}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : (
             <div className="flex items-center gap-2 text-xs sm:text-sm">
               <Calendar className="w-3 h-3 sm:w-4 sm:h-4 text-estate-red flex-shrink-0" />
               <span className="text-foreground">{displayDate}</span>
             </div>
-          )}
+          ))}
           
+          {sale.postedAt && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Clock className="w-3 h-3 flex-shrink-0" />
+              <span>Posted {formatDistanceToNow(new Date(sale.postedAt), { addSuffix: true })}</span>
+            </div>
+          )}
+
           {sale.type === 'thrift_store' && sale.businessHours && (
             <div className="flex items-center gap-2 text-xs sm:text-sm">
               <Clock className="w-3 h-3 sm:w-4 sm:h-4 text-treasure-green flex-shrink-0" />
@@ -384,9 +265,9 @@ export const EstateSaleCard = React.memo(({ sale, isSelected = false, onSelect }
                 return null;
               })()}
               
-              {sale.distance && (
+              {(distance || sale.distance) && (
                 <Badge variant="outline" className="text-xs mt-1 self-start">
-                  {sale.distance}
+                  {distance ? formatDistance(distance) : sale.distance}
                 </Badge>
               )}
             </div>
@@ -395,9 +276,100 @@ export const EstateSaleCard = React.memo(({ sale, isSelected = false, onSelect }
         
         <p className="text-xs sm:text-sm text-muted-foreground line-clamp-3 leading-relaxed"
            title={displayDescription}>
-          {displayDescription}
+          {highlighted(displayDescription, highlight)}
         </p>
+
+        {matchSnippet && (
+          <p className="text-xs text-muted-foreground italic border-l-2 border-vintage-gold/50 pl-2 line-clamp-2">
+            {highlighted(matchSnippet, highlight)}
+          </p>
+        )}
+
+        {sale.detail && (
+          <div className="space-y-1.5 text-xs text-muted-foreground">
+            {(sale.detail.paymentMethods.length > 0 || sale.detail.terms) && (
+              <div className="flex items-start gap-2">
+                <CreditCard className="w-3 h-3 sm:w-4 sm:h-4 text-primary flex-shrink-0 mt-0.5" />
+                <div className="flex flex-col gap-1 min-w-0">
+                  {sale.detail.paymentMethods.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {sale.detail.paymentMethods.map(method => (
+                        <Badge key={method} variant="outline" className="text-[10px] px-1.5 py-0">
+                          {method}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  {sale.detail.terms && <p className="line-clamp-2" title={sale.detail.terms}>{sale.detail.terms}</p>}
+                </div>
+              </div>
+            )}
+            {sale.detail.directions && (
+              <div className="flex items-start gap-2">
+                <Navigation className="w-3 h-3 sm:w-4 sm:h-4 text-primary flex-shrink-0 mt-0.5" />
+                <p className="line-clamp-2" title={sale.detail.directions}>{sale.detail.directions}</p>
+              </div>
+            )}
+            {sale.detail.parking && sale.detail.parking !== sale.detail.directions && (
+              <div className="flex items-start gap-2">
+                <Car className="w-3 h-3 sm:w-4 sm:h-4 text-primary flex-shrink-0 mt-0.5" />
+                <p className="line-clamp-2" title={sale.detail.parking}>{sale.detail.parking}</p>
+              </div>
+            )}
+            {sale.detail.photoUrls.length > 1 && (
+              <div className="flex gap-1 overflow-x-auto pt-1">
+                {sale.detail.photoUrls.slice(0, 6).map(photoUrl => (
+                  <img
+                    key={photoUrl}
+                    src={photoUrl}
+                    alt=""
+                    loading="lazy"
+                    decoding="async"
+                    className="h-12 w-12 rounded object-cover flex-shrink-0 cursor-pointer"
+                    onClick={() => window.open(photoUrl, '_blank')}
+                    onError={(e) => {
+                      (e.currentTarget as HTMLImageElement).style.display = 'none';
+                    }}
+                  />
+                ))}
+                {sale.detail.photoUrls.length > 6 && (
+                  <span className="h-12 px-2 flex items-center rounded bg-muted text-[10px] flex-shrink-0">
+                    +{sale.detail.photoUrls.length - 6} photos
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+        )}
         
+        {sale.mergedFrom?.length > 0 && (
+          <div className="flex items-start gap-2 text-xs text-muted-foreground">
+            <Link2 className="w-3 h-3 sm:w-4 sm:h-4 text-primary flex-shrink-0 mt-0.5" />
+            <div className="flex flex-wrap items-center gap-1">
+              <span>Also listed on</span>
+              {sale.mergedFrom.map(other => (
+                <Tooltip key={other.id}>
+                  <TooltipTrigger asChild>
+                    <a
+                      href={other.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary hover:text-primary/80 underline-offset-2 hover:underline"
+                    >
+                      {listingSources.get(other.source)?.label || other.source}
+                      {other.photoUrls.length > 0 && ` (${other.photoUrls.length} photos)`}
+                    </a>
+                  </TooltipTrigger>
+                  <TooltipContent className="max-w-xs text-xs">
+                    <p className="font-medium">{other.title}</p>
+                    <p>Merged as the same sale: {other.reasons.join(', ') || 'linked through another listing'}</p>
+                  </TooltipContent>
+                </Tooltip>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="flex items-center justify-between pt-2">
           <div className="flex items-center gap-1">
             <Badge variant="secondary" className="text-xs">
@@ -409,23 +381,32 @@ export const EstateSaleCard = React.memo(({ sale, isSelected = false, onSelect }
               ) : (
                 <>
                   <Tag className="w-3 h-3 mr-1" />
-                  Estate Sale
+                  {saleTypeLabel(sale.saleType)}
                 </>
               )}
             </Badge>
           </div>
           
-          {sale.url && (
-            <Button 
-              variant="outline" 
-              size="sm" 
-              className="text-xs touch-manipulation"
-              onClick={() => window.open(sale.url, '_blank')}
-            >
-              <ExternalLink className="w-3 h-3 mr-1" />
-              View Details
-            </Button>
-          )}
+          <div className="flex items-center gap-1">
+            {sale.id && (
+              <Button variant="ghost" size="sm" className="text-xs touch-manipulation" asChild>
+                <Link to={`/sale/${sale.id}`} title="Link to this sale">
+                  <Link2 className="w-3 h-3" />
+                </Link>
+              </Button>
+            )}
+            {sale.url && (
+              <Button 
+                variant="outline" 
+                size="sm" 
+                className="text-xs touch-manipulation"
+                onClick={() => window.open(sale.url, '_blank')}
+              >
+                <ExternalLink className="w-3 h-3 mr-1" />
+                View Details
+              </Button>
+            )}
+          </div>
         </div>
       </CardContent>
     </Card>
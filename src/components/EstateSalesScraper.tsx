@@ -1,91 +1,106 @@
-import React, { useState, useMemo, useCallback, lazy, Suspense } from 'react';
+import React, { useState, useMemo, useCallback, useEffect, useRef, lazy, Suspense } from 'react';
+import { Link, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 import { useToast } from "@/components/ui/use-toast";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
 import { Checkbox } from "@/components/ui/checkbox";
-import { FirecrawlService } from '@/utils/FirecrawlService';
-import { supabase } from '@/integrations/supabase/client';
+import { listingSources } from '@/utils/sources/registry';
+import type { SourceDiagnostics } from '@/utils/sources/types';
+import type { Listing } from '@shared/listings/types';
+import { nextSession } from '@shared/listings/dates';
+import { keywordHighlighter, parseKeywordQuery, searchListings } from '@shared/listings/keywords';
+import { applyResultFilters, defaultResultFilters, facetCounts, type ResultFilters } from '@shared/listings/filters';
+import { resolveListings } from '@shared/listings/resolve';
+import { ALL_DISTANCES_RADIUS, locationParts } from '@shared/listings/distance';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { MapPin, Calendar, DollarSign, Search, Grid, Route, Map, Loader2, Sparkles, List, ArrowUpDown, Store } from 'lucide-react';
+import { MapPin, Calendar, DollarSign, Search, Grid, Route, Map, Loader2, Sparkles, List, ArrowUpDown, Store, Clock, RefreshCw, Tag, Car, BookmarkPlus, Inbox } from 'lucide-react';
+import { SALE_TYPES } from '@shared/listings/saleTypes';
+import { AuctionTypeFilter } from './AuctionTypeFilter';
+import { SourceStatusStrip } from './SourceStatusStrip';
+import { ResultFilterPanel } from './ResultFilterPanel';
+import { SaveSearchDialog } from './SaveSearchDialog';
+import { formatDistanceToNow } from 'date-fns';
 import { EstateSaleCard } from './EstateSaleCard';
 const MapView = lazy(() => import('./MapView').then(m => ({ default: m.MapView })));
 const RouteOptimizationDialog = lazy(() => import('./RouteOptimizationDialog').then(m => ({ default: m.RouteOptimizationDialog })));
 import { LocationInput } from './LocationInput';
 import { createLogger } from '@/lib/logger';
+import { effectiveMiles, listingDistances, type ListingDistance } from '@/lib/distance';
+import { unreadMatchCount } from '@/lib/savedSearches';
+import { decodeSearchState, encodeSearchState, type SearchState, type SortOrder, type ViewMode } from '@/lib/searchUrl';
+
+const logger = createLogger('EstateSalesScraper');
+
+const DEEP_SEARCH_PAGES = 10;
+
+// When the last completed search for a location ran, so sales first seen since then can be marked new
+const lastSearchKey = (location: string) => `estate-sales:last-search:${location.trim().toLowerCase()}`;
+
+const isNewSince = (listing: Listing, since: string | null) =>
+  !!since && !!listing.firstSeenAt && new Date(listing.firstSeenAt) > new Date(since);
 
-interface EstateSale {
-  title?: string;
-  date?: string;
-  address?: string;
-  description?: string;
-  url?: string;
-  status?: string;
-  company?: string;
-  distance?: string;
-  markdown?: string;
-  city?: string;
-  state?: string;
-  zipCode?: string;
-  streetAddress?: string;
-  uniqueId?: string;
-  imageUrl?: string;
-  type?: 'estate_sale' | 'thrift_store';
-  businessHours?: string;
-  phone?: string;
-  rating?: number;
-}
 
 interface CrawlResult {
   success: boolean;
   status?: string;
   completed?: number;
   total?: number;
-  creditsUsed?: number;
-  expiresAt?: string;
-  data?: any[];
+  fetchedAt?: string;
+  // The location searched, which distances are measured from
+  location?: string;
+  data?: Listing[];
 }
 
+// The parts of the URL state that describe the search itself, as it was last run
+type SearchedForm = Pick<SearchState, 'location' | 'radius' | 'sources' | 'saleTypes' | 'fetchDetails' | 'searchDeeper'>;
+
 export const EstateSalesScraper = () => {
-  const logger = createLogger('EstateSalesScraper');
   const { toast } = useToast();
-  const [url, setUrl] = useState('');
-  const [radiusFilter, setRadiusFilter] = useState<number>(25);
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+  const [searchParams] = useSearchParams();
+  // Everything below starts from the query string, so a link or a refresh restores the search and the view
+  const [initial] = useState(() => decodeSearchState(searchParams));
+  const [url, setUrl] = useState(initial.location);
+  const [radiusFilter, setRadiusFilter] = useState<number>(initial.radius);
   const [isLoading, setIsLoading] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [pagesProgress, setPagesProgress] = useState({ done: 0, planned: 0 });
   const [crawlResult, setCrawlResult] = useState<CrawlResult | null>(null);
-  const [selectedSales, setSelectedSales] = useState<EstateSale[]>([]);
+  const [selectedSales, setSelectedSales] = useState<Listing[]>([]);
   const [showRouteDialog, setShowRouteDialog] = useState(false);
-  const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
-  const [sortBy, setSortBy] = useState<'date' | 'distance'>('date');
-  const [includeThriftStores, setIncludeThriftStores] = useState(false);
-  const [includeCraigslist, setIncludeCraigslist] = useState(false);
-
-  // Helper function to parse distance from text
-  const parseDistance = (distanceText?: string): number => {
-    if (!distanceText) return 999;
-    
-    const lowerText = distanceText.toLowerCase();
-    
-    // Handle "Less than X miles" or "Nearby" cases
-    if (lowerText.includes('less than') || lowerText.includes('nearby')) {
-      const match = lowerText.match(/less than (\d+)/);
-      return match ? parseInt(match[1]) : 2; // Default nearby to 2 miles
-    }
-    
-    // Handle "X miles away" format
-    const match = lowerText.match(/(\d+)\s+miles?\s+away/);
-    return match ? parseInt(match[1]) : 999;
-  };
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  // New saved-search matches nobody has looked at yet
+  const [unreadMatches, setUnreadMatches] = useState(0);
+  const [viewMode, setViewMode] = useState<ViewMode>(initial.viewMode);
+  const [sortBy, setSortBy] = useState<SortOrder>(initial.sortBy);
+  const [enabledSources, setEnabledSources] = useState<Record<string, boolean>>(() => initial.sources
+    ? Object.fromEntries(listingSources.all().map(source => [source.id, initial.sources.includes(source.id)]))
+    : listingSources.defaultSelection());
+  const [fetchDetails, setFetchDetails] = useState(initial.fetchDetails);
+  const [searchDeeper, setSearchDeeper] = useState(initial.searchDeeper);
+  const [saleTypes, setSaleTypes] = useState<string[]>(initial.saleTypes);
+  const [typeFilter, setTypeFilter] = useState<string>(initial.typeFilter);
+  // Narrow the loaded results only; changing them never searches again
+  const [resultFilters, setResultFilters] = useState<ResultFilters>(initial.filters);
+  const [keywords, setKeywords] = useState(initial.keywords);
+  const [groupByType, setGroupByType] = useState(initial.groupByType);
+  const [searched, setSearched] = useState<SearchedForm | null>(null);
+  const [sourceDiagnostics, setSourceDiagnostics] = useState<SourceDiagnostics[]>([]);
+  // Start of the previous search for this location; null on a first search, when nothing counts as new
+  const [newSince, setNewSince] = useState<string | null>(null);
+  // Listing id -> distance from the searched location, filled in once a search completes
+  const [distances, setDistances] = useState<Record<string, ListingDistance>>({});
+  const [driveDistances, setDriveDistances] = useState(initial.driveDistances);
 
-  const handleSaleSelection = useCallback((sale: EstateSale, selected: boolean) => {
-    const saleId = sale.uniqueId || `${sale.title}-${sale.address}-${sale.date}`;
-    logger.info('Selection toggled', { saleId, selected });
+  const handleSaleSelection = useCallback((sale: Listing, selected: boolean) => {
+    logger.info('Selection toggled', { saleId: sale.id, selected });
     setSelectedSales(prev => selected
-      ? [...prev, sale]
-      : prev.filter(s => (s.uniqueId || `${s.title}-${s.address}-${s.date}`) !== saleId)
+      ? [...prev.filter(s => s.id !== sale.id), sale]
+      : prev.filter(s => s.id !== sale.id)
     );
   }, []);
 
@@ -102,9 +117,7 @@ export const EstateSalesScraper = () => {
     setShowRouteDialog(true);
   }, [selectedSales.length, toast]);
 
-  const handleSubmit = useCallback(async (e: React.FormEvent) => {
-    e.preventDefault();
-
+  const runSearch = useCallback(async (forceRefresh = false) => {
     if (!url || url.trim() === '') {
       toast({
         title: "Location Required",
@@ -114,70 +127,113 @@ export const EstateSalesScraper = () => {
       return;
     }
 
+    const activeSources = listingSources.all().filter(source => enabledSources[source.id]);
+    if (activeSources.length === 0) {
+      toast({
+        title: "Source Required",
+        description: "Please include at least one source to search",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsLoading(true);
     setProgress(0);
+    setPagesProgress({ done: 0, planned: 0 });
     setCrawlResult(null);
+    setSourceDiagnostics([]);
+    setSearched({
+      location: url,
+      radius: radiusFilter,
+      sources: activeSources.map(source => source.id),
+      saleTypes,
+      fetchDetails,
+      searchDeeper,
+    });
+    setNewSince(localStorage.getItem(lastSearchKey(url)));
+    const startedAt = new Date().toISOString();
 
     const start = performance.now();
-    logger.info('Crawl started', { url, includeThriftStores, radiusFilter });
+    logger.info('Crawl started', { url, sources: activeSources.map(source => source.id), radiusFilter, fetchDetails, searchDeeper, saleTypes, forceRefresh });
 
-    // Simulate progress for better UX
-    const progressInterval = setInterval(() => {
-      setProgress(prev => Math.min(prev + 10, 90));
-    }, 500);
+    // Progress is pages fetched out of pages planned across all sources; a source that doesn't stream counts as one page
+    const pageCounts: Record<string, { done: number; planned: number }> =
+      Object.fromEntries(activeSources.map(source => [source.id, { done: 0, planned: 1 }]));
+    const reportProgress = (sourceId: string, done: number, planned: number) => {
+      pageCounts[sourceId] = { done, planned: Math.max(done, planned) };
+      const totals = Object.values(pageCounts).reduce(
+        (sum, counts) => ({ done: sum.done + counts.done, planned: sum.planned + counts.planned }),
+        { done: 0, planned: 0 }
+      );
+      setPagesProgress(totals);
+      setProgress(Math.round((totals.done / totals.planned) * 100));
+    };
 
-    try {
-      const estatePromise = FirecrawlService.crawlWebsite(url);
-      const thriftPromise = includeThriftStores 
-        ? FirecrawlService.searchThriftStores(url, radiusFilter)
-        : null;
-      const craigslistPromise = includeCraigslist
-        ? FirecrawlService.searchCraigslist(url, radiusFilter)
-        : null;
-
-      const [estateSalesResult, thriftStoresResult, craigslistResult] = await Promise.all([
-        estatePromise,
-        thriftPromise ? thriftPromise : Promise.resolve({ success: false }) as any,
-        craigslistPromise ? craigslistPromise : Promise.resolve({ success: false }) as any,
-      ]);
-
-      let allResults: any[] = [];
-
-      if (estateSalesResult.success) {
-        allResults = [...(estateSalesResult.data?.data || [])];
-      }
+    // Cards are shown as pages are parsed; a listing sent again (enriched from its own page) replaces its earlier copy
+    const shown: Record<string, Listing> = {};
+    const showListings = (listings: Listing[]) => {
+      listings.forEach(listing => { shown[listing.id] = listing; });
+      const data = Object.values(shown);
+      setCrawlResult({ success: true, status: 'scraping', completed: data.length, total: data.length, location: url, data });
+    };
 
-    if ((thriftStoresResult as any)?.success && (thriftStoresResult as any)?.data) {
-      allResults = [...allResults, ...((thriftStoresResult as any).data)];
-    }
-    if ((craigslistResult as any)?.success && (craigslistResult as any)?.data) {
-      allResults = [...allResults, ...((craigslistResult as any).data)];
-    }
+    try {
+      const sourceResults = await Promise.all(activeSources.map(async source => {
+        const result = await source.search(url, radiusFilter, {
+          enrichDetails: fetchDetails,
+          // Left unset, the edge function picks a page depth from the radius
+          maxPages: searchDeeper ? DEEP_SEARCH_PAGES : undefined,
+          forceRefresh,
+          saleTypes,
+          onProgress: (done, planned) => reportProgress(source.id, done, planned),
+          onListings: showListings,
+        });
+        const counts = pageCounts[source.id];
+        reportProgress(source.id, counts.planned, counts.planned);
+        showListings(result.listings);
+        return result;
+      }));
 
-      clearInterval(progressInterval);
-      setProgress(100);
+      const allResults = sourceResults.flatMap(result => result.listings);
+      const diagnostics = sourceResults.map(result => result.diagnostics);
 
       const durationMs = Math.round(performance.now() - start);
-      logger.info('Crawl completed', { resultCount: allResults.length, durationMs });
+      logger.info('Crawl completed', { resultCount: allResults.length, durationMs, diagnostics });
+      setSourceDiagnostics(diagnostics);
+
+      const labelOf = (sourceId: string) => listingSources.get(sourceId)?.label || sourceId;
+      const failed = diagnostics.filter(d => !d.ok);
+      const drifted = diagnostics.filter(d => d.ok && d.parserDrift);
+      drifted.forEach(d => logger.warn('Possible parser drift', { sourceId: d.sourceId, pages: d.pages }));
 
       if (allResults.length > 0) {
+        localStorage.setItem(lastSearchKey(url), startedAt);
+        const onlyEstateSales = activeSources.length === 1 && activeSources[0].id === 'estatesales-net';
+        const problems = [...failed, ...drifted].map(d => labelOf(d.sourceId));
         toast({
           title: "Success",
-          description: `Found ${allResults.length} ${includeThriftStores || includeCraigslist ? 'results' : 'estate sales'}!`,
-          duration: 3000,
+          description: `Found ${allResults.length} ${onlyEstateSales ? 'estate sales' : 'results'}!` +
+            (problems.length > 0 ? ` No results from ${problems.join(', ')} — see the source status for details.` : ''),
+          duration: problems.length > 0 ? 6000 : 3000,
         });
         setCrawlResult({
           success: true,
           status: 'completed',
           completed: allResults.length,
           total: allResults.length,
-          creditsUsed: 1,
+          // Oldest page behind the results; sources without a cache report nothing and count as fresh
+          fetchedAt: diagnostics.map(d => d.fetchedAt).filter(Boolean).sort()[0] || new Date().toISOString(),
+          location: url,
           data: allResults
         });
       } else {
+        setCrawlResult(null);
+        const firstFailure = failed.find(d => d.error);
         toast({
           title: "Error",
-          description: estateSalesResult.error || "Failed to find any results",
+          description: drifted.length > 0
+            ? `${labelOf(drifted[0].sourceId)} returned pages but none could be read — the site layout may have changed.`
+            : firstFailure ? `${labelOf(firstFailure.sourceId)}: ${firstFailure.error}` : "Failed to find any results",
           variant: "destructive",
           duration: 3000,
         });
@@ -193,108 +249,166 @@ export const EstateSalesScraper = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [url, includeThriftStores, radiusFilter, toast]);
+  }, [url, enabledSources, fetchDetails, searchDeeper, saleTypes, radiusFilter, toast]);
 
-  const renderResults = () => {
-    if (!crawlResult || !crawlResult.data || crawlResult.data.length === 0) {
-      return null;
-    }
+  const handleSubmit = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    // A new search starts with the results unfiltered; a refresh keeps the filters
+    setTypeFilter('all');
+    setResultFilters(defaultResultFilters());
+    runSearch();
+  }, [runSearch]);
 
-    // First deduplicate results across sources
-    const seen = new Set<string>();
-    const stopwords = ['estate','sale','garage','moving','tag','online','auction','local'];
-    const norm = (s?: string) => (s || '')
-      .toLowerCase()
-      .replace(/[^a-z0-9\s]/g, ' ')
-      .split(/\s+/)
-      .filter(w => w && !stopwords.includes(w))
-      .join(' ');
-
-    const deduplicatedData = crawlResult.data.filter((item: any) => {
-      const title = norm(item.title || item.markdown || '');
-      const addr = norm(item.address || item.streetAddress || '');
-      const key = (addr ? addr : title).slice(0, 80);
-      if (key.length < 3) return true; // keep items with no meaningful key
-      if (seen.has(key)) return false;
-      seen.add(key);
-      return true;
+  // A link to /search re-runs the search it describes, once
+  const ranFromLink = useRef(false);
+  useEffect(() => {
+    if (ranFromLink.current || !initial.location) return;
+    ranFromLink.current = true;
+    runSearch();
+  }, [initial.location, runSearch]);
+
+  // After a search, the URL follows the search and the view. The first search moves / to /search as a new history
+  // entry; later changes replace it, so Back leaves the search rather than stepping through filter clicks.
+  const urlSearch = useMemo(() => searched && encodeSearchState({
+    ...searched,
+    filters: resultFilters,
+    keywords,
+    typeFilter,
+    groupByType,
+    sortBy,
+    viewMode,
+    driveDistances,
+  }).toString(), [searched, resultFilters, keywords, typeFilter, groupByType, sortBy, viewMode, driveDistances]);
+  const writtenSearch = useRef<string | null>(null);
+  const onSearchPage = pathname === '/search';
+  useEffect(() => {
+    if (urlSearch === null || urlSearch === writtenSearch.current) return;
+    writtenSearch.current = urlSearch;
+    navigate({ pathname: '/search', search: `?${urlSearch}` }, { replace: onSearchPage });
+  }, [urlSearch, navigate, onSearchPage]);
+
+  // The inbox link is a convenience; without the saved search tables it just shows no count
+  useEffect(() => {
+    unreadMatchCount().then(setUnreadMatches).catch(() => setUnreadMatches(0));
+  }, []);
+
+  const resolvedData = useMemo(() => resolveListings(crawlResult?.data || []), [crawlResult?.data]);
+
+  // Distances are measured from coordinates once the results are in, not read from the sites' "X miles away" text
+  const searchCompleted = crawlResult?.status === 'completed';
+  const searchedLocation = crawlResult?.location;
+  useEffect(() => {
+    if (!searchCompleted || !searchedLocation) {
+      setDistances({});
+      return;
+    }
+    let cancelled = false;
+    listingDistances(searchedLocation, resolvedData, { drive: driveDistances }).then(measured => {
+      if (!cancelled) setDistances(measured);
+    }).catch(error => {
+      // Results still show without distances; the radius filter keeps listings it can't place
+      logger.error('Measuring distances failed', { location: searchedLocation, error });
+      if (!cancelled) setDistances({});
     });
+    return () => {
+      cancelled = true;
+    };
+  }, [searchCompleted, searchedLocation, resolvedData, driveDistances]);
 
-    // Filter by radius and date
-    const filteredData = deduplicatedData.filter((item: any) => {
-      // Filter by radius if not set to "All distances"
-      if (radiusFilter !== 999) {
-        const distance = parseDistance(item.distance);
-        if (distance > radiusFilter) return false;
-      }
-      
-      // For estate sales, only show those in the next 5 days
-      if (item.type !== 'thrift_store' && item.date) {
-        const parseDate = (dateStr: string): Date => {
-          if (!dateStr || dateStr === 'Date TBD') return new Date(Date.now() + 365 * 24 * 60 * 60 * 1000); // Far future for TBD
-          
-          const currentYear = new Date().getFullYear();
-          const dateMatch = dateStr.match(/^(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+(\d{1,2})/i);
-          
-          if (dateMatch) {
-            const [, month, day] = dateMatch;
-            const monthMap: { [key: string]: number } = {
-              'jan': 0, 'feb': 1, 'mar': 2, 'apr': 3, 'may': 4, 'jun': 5,
-              'jul': 6, 'aug': 7, 'sep': 8, 'oct': 9, 'nov': 10, 'dec': 11
-            };
-            const monthIndex = monthMap[month.toLowerCase()];
-            const dayNum = parseInt(day);
-            return new Date(currentYear, monthIndex, dayNum);
-          }
-          
-          return new Date(); // Default to today if can't parse
-        };
-        
-        const saleDate = parseDate(item.date);
-        const today = new Date();
-        const fiveDaysFromNow = new Date(today.getTime() + (5 * 24 * 60 * 60 * 1000));
-        
-        // Only include if the sale is within the next 5 days
-        if (saleDate > fiveDaysFromNow) return false;
-      }
+  const keywordQuery = useMemo(() => parseKeywordQuery(keywords), [keywords]);
+  const keywordHighlight = useMemo(() => keywordHighlighter(keywordQuery), [keywordQuery]);
+
+  // The results as shown: filtered, searched and sorted. Memoized so the map only re-geocodes and redraws its
+  // markers when the results change, not on every render of this component.
+  const results = useMemo(() => {
+    // One card per sale: listings of the same sale from different sources were merged by resolveListings
+    const mergedCount = resolvedData.reduce((count, item) => count + (item.mergedFrom?.length || 0), 0);
+
+    // Filter by radius and the sale types searched for, then by the filter panel
+    const now = new Date();
+    const searchedData = resolvedData.filter((item: Listing) => {
+      // Filter by radius if not set to "All distances"; listings that couldn't be placed are kept
+      const miles = effectiveMiles(distances[item.id]);
+      if (radiusFilter !== ALL_DISTANCES_RADIUS && miles !== undefined && miles > radiusFilter) return false;
+
+      // Sale types picked in the search form; thrift stores have no sale type
+      if (saleTypes.length > 0 && item.saleType && !saleTypes.includes(item.saleType)) return false;
       
       return true;
     });
+    // Keyword matches come back best first, which the relevance sort keeps
+    const keywordMatches = searchListings(searchedData, keywordQuery);
+    const matchSnippets: Record<string, string> = {};
+    keywordMatches.forEach(match => { if (match.snippet) matchSnippets[match.listing.id] = match.snippet; });
+    const keywordData = keywordMatches.map(match => match.listing);
+
+    const filterCounts = facetCounts(keywordData, resultFilters, now);
+    const filteredData = applyResultFilters(keywordData, resultFilters, now);
+
+    // Counts per sale type power the results type filter, so they ignore that filter
+    const typeCounts = filteredData.reduce((counts: Record<string, number>, item: Listing) => {
+      if (item.saleType) counts[item.saleType] = (counts[item.saleType] || 0) + 1;
+      return counts;
+    }, {});
+    const typedData = typeFilter === 'all' ? filteredData : filteredData.filter((item: Listing) => item.saleType === typeFilter);
 
     // Sort the data based on selected sort option
-    const sortedData = filteredData.sort((a: any, b: any) => {
+    const sortedData = typedData.sort((a: Listing, b: Listing) => {
       if (sortBy === 'distance') {
-        const distanceA = parseDistance(a.distance);
-        const distanceB = parseDistance(b.distance);
-        return distanceA - distanceB;
+        // Nearest first; listings that couldn't be placed sort last
+        const milesOf = (item: Listing) => effectiveMiles(distances[item.id]) ?? Number.MAX_SAFE_INTEGER;
+        return milesOf(a) - milesOf(b);
       } else if (sortBy === 'date') {
-        // Parse dates for comparison
-        const parseDate = (dateStr: string): Date => {
-          if (!dateStr || dateStr === 'Date TBD') return new Date(Date.now() + 365 * 24 * 60 * 60 * 1000); // Far future for TBD
-          
-          const currentYear = new Date().getFullYear();
-          const dateMatch = dateStr.match(/^(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+(\d{1,2})/i);
-          
-          if (dateMatch) {
-            const [, month, day] = dateMatch;
-            const monthMap: { [key: string]: number } = {
-              'jan': 0, 'feb': 1, 'mar': 2, 'apr': 3, 'may': 4, 'jun': 5,
-              'jul': 6, 'aug': 7, 'sep': 8, 'oct': 9, 'nov': 10, 'dec': 11
-            };
-            const monthIndex = monthMap[month.toLowerCase()];
-            const dayNum = parseInt(day);
-            return new Date(currentYear, monthIndex, dayNum);
-          }
-          
-          return new Date(); // Default to today if can't parse
+        // Upcoming session first; undated listings sort last
+        const startOf = (item: Listing) => {
+          const upcoming = nextSession(item.schedule, now);
+          return upcoming ? new Date(upcoming.start).getTime() : Number.MAX_SAFE_INTEGER;
         };
-        
-        const dateA = parseDate(a.date);
-        const dateB = parseDate(b.date);
-        return dateA.getTime() - dateB.getTime();
+        return startOf(a) - startOf(b);
       }
+      // By relevance: keyword matches are already best first
       return 0;
     });
+    const newCount = sortedData.filter(item => isNewSince(item, newSince)).length;
+    return { mergedCount, matchSnippets, filterCounts, filteredData, typeCounts, sortedData, newCount };
+  }, [resolvedData, distances, radiusFilter, saleTypes, keywordQuery, resultFilters, typeFilter, sortBy, newSince]);
+
+  const selectedSaleIds = useMemo(() => selectedSales.map(s => s.id), [selectedSales]);
+  const handleMapSaleSelection = useCallback((saleId: string, selected: boolean) => {
+    const sale = results.sortedData.find((item: Listing) => item.id === saleId);
+    if (sale) handleSaleSelection(sale, selected);
+  }, [results.sortedData, handleSaleSelection]);
+
+  // Typing a first keyword ranks by relevance; clearing them goes back to date order
+  const handleKeywordsChange = useCallback((value: string) => {
+    setKeywords(value);
+    const searching = value.trim() !== '';
+    setSortBy(prev => (searching && prev === 'date' ? 'relevance' : !searching && prev === 'relevance' ? 'date' : prev));
+  }, []);
+
+  const renderCard = (item: Listing, matchSnippet?: string) => {
+    const isSelected = selectedSales.some(s => s.id === item.id);
+
+    return (
+      <EstateSaleCard 
+        key={item.id} 
+        sale={item}
+        isSelected={isSelected}
+        isNew={isNewSince(item, newSince)}
+        distance={distances[item.id]}
+        highlight={keywordHighlight}
+        matchSnippet={matchSnippet}
+        onSelect={handleSaleSelection}
+      />
+    );
+  };
+
+  const renderResults = () => {
+    if (!crawlResult || !crawlResult.data || crawlResult.data.length === 0) {
+      return null;
+    }
+
+    const { mergedCount, matchSnippets, filterCounts, filteredData, typeCounts, sortedData, newCount } = results;
 
     return (
       <div className="mt-6">
@@ -305,8 +419,8 @@ export const EstateSalesScraper = () => {
               Found Results ({sortedData.length})
               <div className="flex gap-1 ml-2">
                 {(() => {
-                  const estateSales = sortedData.filter((item: any) => item.type !== 'thrift_store').length;
-                  const thriftStores = sortedData.filter((item: any) => item.type === 'thrift_store').length;
+                  const estateSales = sortedData.filter((item: Listing) => item.type !== 'thrift_store').length;
+                  const thriftStores = sortedData.filter((item: Listing) => item.type === 'thrift_store').length;
                   return (
                     <>
                       {estateSales > 0 && (
@@ -324,15 +438,70 @@ export const EstateSalesScraper = () => {
                 })()}
               </div>
             </h4>
-            {radiusFilter !== 999 && sortedData.length !== deduplicatedData.length && (
+            {sortedData.length !== resolvedData.length && (
               <Badge variant="outline" className="text-xs">
-                {deduplicatedData.length - sortedData.length} filtered out
+                {resolvedData.length - sortedData.length} filtered out
               </Badge>
              )}
+            {mergedCount > 0 && (
+              <Badge variant="outline" className="text-xs" title="Listings of the same sale on several sites are shown once; hover a card's other links to see why">
+                {mergedCount} cross-listed duplicate{mergedCount === 1 ? '' : 's'} merged
+              </Badge>
+            )}
+            {newCount > 0 && (
+              <Badge className="text-xs">
+                {newCount} new since your last search
+              </Badge>
+            )}
+            {crawlResult.fetchedAt && (
+              <div className="flex items-center gap-1">
+                <Badge variant="outline" className="text-xs flex items-center gap-1">
+                  <Clock className="w-3 h-3" />
+                  Updated {formatDistanceToNow(new Date(crawlResult.fetchedAt), { addSuffix: true })}
+                </Badge>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => runSearch(true)}
+                  disabled={isLoading}
+                  className="h-7 px-2 text-xs"
+                  title="Scrape again instead of using cached pages"
+                >
+                  <RefreshCw className="w-3 h-3 mr-1" />
+                  Force refresh
+                </Button>
+              </div>
+            )}
            </div>
           <div className="flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-4">
+            {/* Sale Type Filter */}
+            {Object.keys(typeCounts).length > 0 && (
+              <Select value={typeFilter} onValueChange={setTypeFilter}>
+                <SelectTrigger className="h-8 w-44 text-xs sm:text-sm">
+                  <Tag className="w-3 h-3 sm:w-4 sm:h-4 mr-1" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="z-50 bg-card max-h-[60vh] overflow-auto">
+                  <SelectItem value="all">All types ({filteredData.length})</SelectItem>
+                  {SALE_TYPES.filter(type => typeCounts[type.id]).map(type => (
+                    <SelectItem key={type.id} value={type.id}>{type.label} ({typeCounts[type.id]})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {viewMode === 'list' && Object.keys(typeCounts).length > 1 && (
+              <Button
+                variant={groupByType ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setGroupByType(prev => !prev)}
+                className="h-8 text-xs sm:text-sm"
+              >
+                Group by type
+              </Button>
+            )}
+
             {/* Sort Option */}
-            <Select value={sortBy} onValueChange={(value: 'date' | 'distance') => setSortBy(value)}>
+            <Select value={sortBy} onValueChange={(value: 'date' | 'distance' | 'relevance') => setSortBy(value)}>
               <SelectTrigger className="h-8 w-32 text-xs sm:text-sm">
                 <ArrowUpDown className="w-3 h-3 sm:w-4 sm:h-4 mr-1" />
                 <SelectValue />
@@ -340,8 +509,33 @@ export const EstateSalesScraper = () => {
               <SelectContent className="z-50 bg-card max-h-[60vh] overflow-auto">
                 <SelectItem value="date">By Date</SelectItem>
                 <SelectItem value="distance">By Distance</SelectItem>
+                {keywords.trim() && <SelectItem value="relevance">By Relevance</SelectItem>}
               </SelectContent>
             </Select>
+
+            {/* Straight-line distances by default; road distances cost a Mapbox matrix lookup */}
+            <Button
+              variant={driveDistances ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setDriveDistances(prev => !prev)}
+              className="h-8 text-xs sm:text-sm"
+            >
+              <Car className="w-3 h-3 sm:w-4 sm:h-4 mr-1" />
+              Drive distance
+            </Button>
+
+            {searched && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowSaveDialog(true)}
+                className="h-8 text-xs sm:text-sm"
+                title="Re-run this search on a schedule and collect new sales in the inbox"
+              >
+                <BookmarkPlus className="w-3 h-3 sm:w-4 sm:h-4 mr-1" />
+                Save search
+              </Button>
+            )}
             
             {/* View Toggle */}
             <div className="flex items-center bg-muted/50 rounded-lg p-1 flex-shrink-0">
@@ -383,111 +577,50 @@ export const EstateSalesScraper = () => {
           </div>
         </div>
         
+        <div className="relative mb-3">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={keywords}
+            onChange={(e) => handleKeywordsChange(e.target.value)}
+            placeholder='Keywords: Pyrex "Le Creuset" -reproduction'
+            className="h-9 pl-9 text-sm"
+            aria-label="Search listings by keyword"
+          />
+        </div>
+
+        <ResultFilterPanel filters={resultFilters} onFiltersChange={setResultFilters} counts={filterCounts} />
+
         {/* Results Display */}
         {viewMode === 'map' ? (
           <MapView 
-            sales={sortedData
-              .filter((item: any) => {
-                // Only show items with valid street addresses in map mode
-                const address = item.address || '';
-                if (!address || 
-                    address === 'Address TBD' || 
-                    address.trim() === '' ||
-                    address.includes('Last modified') ||
-                    address.includes('Pictures') ||
-                    address.includes('Picture Added') ||
-                    address.includes('hours ago') ||
-                    address.includes('minutes ago') ||
-                    address.includes('days ago')) {
-                  return false;
-                }
-                
-                // Must have a street number and street name pattern
-                const hasStreetAddress = /\d+\s+[A-Za-z\s]+(dr|drive|st|street|ave|avenue|rd|road|ln|lane|way|circle|ct|court|pkwy|parkway|blvd|boulevard|place|pl)/i.test(address);
-                return hasStreetAddress;
-              })
-              .map((item: any, index: number) => ({
-                title: item.title || '',
-                address: item.address || '',
-                city: item.city || '',
-                state: item.state || '',
-                zipCode: item.zipCode || '',
-                company: item.company || '',
-                date: item.date || '',
-                time: item.time || '',
-                distance: item.distance || '',
-                status: item.status || '',
-                featured: item.featured || '',
-                url: item.url || item.sourceURL || '',
-                imageUrl: item.imageUrl || '',
-                description: item.description || '',
-                type: item.type || 'estate_sale'
-              }))}
-            selectedSales={selectedSales.map(s => s.title || '')}
-            onSaleSelection={(saleTitle, selected) => {
-              const sale = sortedData.find((item: any) => item.title === saleTitle);
-              if (sale) {
-                const saleData: EstateSale = {
-                  title: sale.title || '',
-                  address: sale.address || '',
-                  city: sale.city || '',
-                  state: sale.state || '',
-                  zipCode: sale.zipCode || '',
-                  company: sale.company || '',
-                  date: sale.date || '',
-                  distance: sale.distance || '',
-                  status: sale.status || '',
-                  url: sale.url || sale.sourceURL || '',
-                  imageUrl: sale.imageUrl || '',
-                  description: sale.description || '',
-                  uniqueId: `sale-${saleTitle}-${sale.address}`.replace(/[^a-zA-Z0-9-]/g, '-')
-                };
-                handleSaleSelection(saleData, selected);
-              }
-            }}
+            sales={sortedData}
+            selectedSales={selectedSaleIds}
+            onSaleSelection={handleMapSaleSelection}
             onPlanRoute={handlePlanRoute}
           />
         ) : (
+          groupByType ? (
+            <div className="space-y-6">
+              {SALE_TYPES.map(type => ({ type, items: sortedData.filter((item: Listing) => item.saleType === type.id) }))
+                .concat([{ type: null, items: sortedData.filter((item: Listing) => !item.saleType) }])
+                .filter(group => group.items.length > 0)
+                .map(group => (
+                  <div key={group.type?.id || 'other'} className="space-y-3">
+                    <h5 className="font-semibold text-foreground flex items-center gap-2">
+                      {group.type ? group.type.label : 'Other'}
+                      <Badge variant="outline" className="text-xs">{group.items.length}</Badge>
+                    </h5>
+                    <div className="grid gap-3 sm:gap-4 sm:grid-cols-2 lg:grid-cols-2">
+                      {group.items.map((item: Listing) => renderCard(item, matchSnippets[item.id]))}
+                    </div>
+                  </div>
+                ))}
+            </div>
+          ) : (
           <div className="grid gap-3 sm:gap-4 sm:grid-cols-2 lg:grid-cols-2">
-            {sortedData.map((item: any, index: number) => {
-              const uniqueId = `sale-${index}-${item.title?.slice(0, 20) || 'untitled'}-${item.address?.slice(0, 20) || 'no-address'}`.replace(/[^a-zA-Z0-9-]/g, '-');
-              const saleData: EstateSale = {
-                title: item.title,
-                date: item.date,
-                address: item.address,
-                description: item.description,
-                url: item.url || item.sourceURL,
-                status: item.status,
-                company: item.company,
-                distance: item.distance,
-                markdown: item.markdown,
-                city: item.city,
-                state: item.state,
-                zipCode: item.zipCode,
-                  streetAddress: item.streetAddress,
-                  uniqueId: uniqueId,
-                  imageUrl: item.imageUrl,
-                  type: item.type || 'estate_sale',
-                  businessHours: item.businessHours,
-                  phone: item.phone,
-                  rating: item.rating
-              };
-              
-              const isSelected = selectedSales.some(s => {
-                const existingId = s.uniqueId || `${s.title}-${s.address}-${s.date}`;
-                return existingId === uniqueId;
-              });
-              
-              return (
-                <EstateSaleCard 
-                  key={uniqueId} 
-                  sale={saleData}
-                  isSelected={isSelected}
-                  onSelect={handleSaleSelection}
-                />
-              );
-            })}
+            {sortedData.map((item: Listing) => renderCard(item, matchSnippets[item.id]))}
           </div>
+          )
         )}
       </div>
     );
@@ -505,6 +638,11 @@ export const EstateSalesScraper = () => {
           <p className="text-base sm:text-lg md:text-xl text-muted-foreground max-w-2xl mx-auto leading-relaxed">
             Discover hidden treasures at estate sales with intelligent route planning
           </p>
+          <Link to="/inbox" className="inline-flex items-center gap-1 mt-3 text-sm text-primary hover:underline">
+            <Inbox className="w-4 h-4" />
+            Saved searches
+            {unreadMatches > 0 && <Badge className="text-xs ml-1">{unreadMatches} new</Badge>}
+          </Link>
         </div>
 
         {/* Scraping Form */}
@@ -514,7 +652,7 @@ export const EstateSalesScraper = () => {
               <div className="space-y-2 sm:space-y-3">
                 <LocationInput 
                   onLocationChange={setUrl}
-                  initialLocation={undefined}
+                  initialLocation={locationParts(initial.location)}
                 />
               </div>
               
@@ -541,38 +679,61 @@ export const EstateSalesScraper = () => {
               </div>
             </div>
             
+            <AuctionTypeFilter selectedTypes={saleTypes} onTypesChange={setSaleTypes} />
+
             <div className="space-y-2">
               <div className="text-base sm:text-lg font-semibold text-foreground">Include</div>
               <div className="flex flex-wrap items-center gap-4 sm:gap-6 bg-muted/30 rounded-lg p-3 sm:p-4">
-                <div className="flex items-center space-x-2">
-                  <Checkbox 
-                    id="include-thrift-stores"
-                    checked={includeThriftStores}
-                    onCheckedChange={(checked) => setIncludeThriftStores(!!checked)}
-                    className="h-4 w-4 sm:h-5 sm:w-5"
-                  />
-                  <label 
-                    htmlFor="include-thrift-stores" 
-                    className="text-sm sm:text-base font-medium text-foreground flex items-center gap-2 cursor-pointer"
-                  >
-                    <Store className="w-4 h-4 text-primary" />
-                    Thrift stores
-                  </label>
-                </div>
-                <div className="flex items-center space-x-2">
+                {listingSources.all().map(source => {
+                  const SourceIcon = source.icon;
+                  return (
+                    <div key={source.id} className="flex items-center space-x-2">
+                      <Checkbox 
+                        id={`include-${source.id}`}
+                        checked={!!enabledSources[source.id]}
+                        onCheckedChange={(checked) => setEnabledSources(prev => ({ ...prev, [source.id]: !!checked }))}
+                        className="h-4 w-4 sm:h-5 sm:w-5"
+                      />
+                      <label 
+                        htmlFor={`include-${source.id}`} 
+                        className="text-sm sm:text-base font-medium text-foreground flex items-center gap-2 cursor-pointer"
+                      >
+                        {SourceIcon && <SourceIcon className="w-4 h-4 text-primary" />}
+                        {source.label}
+                      </label>
+                    </div>
+                  );
+                })}
+              </div>
+              {listingSources.all().some(source => enabledSources[source.id] && source.capabilities.detailPages) && (
+                <div className="flex items-center space-x-2 px-1">
                   <Checkbox 
-                    id="include-craigslist"
-                    checked={includeCraigslist}
-                    onCheckedChange={(checked) => setIncludeCraigslist(!!checked)}
-                    className="h-4 w-4 sm:h-5 sm:w-5"
+                    id="fetch-sale-details"
+                    checked={fetchDetails}
+                    onCheckedChange={(checked) => setFetchDetails(!!checked)}
+                    className="h-4 w-4"
                   />
                   <label 
-                    htmlFor="include-craigslist" 
-                    className="text-sm sm:text-base font-medium text-foreground cursor-pointer"
+                    htmlFor="fetch-sale-details" 
+                    className="text-xs sm:text-sm text-muted-foreground cursor-pointer"
                   >
-                    Craigslist
+                    Fetch full sale details (hours, terms, photos) — slower
                   </label>
                 </div>
+              )}
+              <div className="flex items-center space-x-2 px-1">
+                <Checkbox 
+                  id="search-deeper"
+                  checked={searchDeeper}
+                  onCheckedChange={(checked) => setSearchDeeper(!!checked)}
+                  className="h-4 w-4"
+                />
+                <label 
+                  htmlFor="search-deeper" 
+                  className="text-xs sm:text-sm text-muted-foreground cursor-pointer"
+                >
+                  Search deeper (walk up to {DEEP_SEARCH_PAGES} result pages per source) — uses more scraping credits
+                </label>
               </div>
             </div>
             
@@ -582,6 +743,11 @@ export const EstateSalesScraper = () => {
                   <span className="flex items-center gap-2">
                     <Loader2 className="w-4 h-4 animate-spin" />
                     Searching...
+                    {pagesProgress.planned > 0 && (
+                      <span className="text-xs font-normal">
+                        {pagesProgress.done} of {pagesProgress.planned} pages
+                      </span>
+                    )}
                   </span>
                   <span>{progress}%</span>
                 </div>
@@ -610,6 +776,8 @@ export const EstateSalesScraper = () => {
           </form>
         </div>
 
+        <SourceStatusStrip diagnostics={sourceDiagnostics} />
+
         {renderResults()}
 
         <Suspense fallback={null}>
@@ -619,6 +787,13 @@ export const EstateSalesScraper = () => {
             selectedSales={selectedSales}
           />
         </Suspense>
+        {searched && (
+          <SaveSearchDialog
+            open={showSaveDialog}
+            onOpenChange={setShowSaveDialog}
+            search={{ ...searched, filters: resultFilters, keywords }}
+          />
+        )}
       </div>
     </div>
   );
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { MapPin, Loader2 } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
 import { supabase } from '@/integrations/supabase/client';
+import { providerFetch } from '@/lib/providerTransport';
 
 interface LocationData {
   city: string;
@@ -26,7 +27,7 @@ interface LocationInputProps {
 }
 
 export const LocationInput = ({ onLocationChange, initialLocation }: LocationInputProps) => {
-  const [searchValue, setSearchValue] = useState(initialLocation ? `${initialLocation.city}, ${initialLocation.state} ${initialLocation.zipcode}` : "");
+  const [searchValue, setSearchValue] = useState(initialLocation ? `${initialLocation.city}, ${initialLocation.state} ${initialLocation.zipcode}`.trim() : "");
   const [suggestions, setSuggestions] = useState<LocationSuggestion[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -71,7 +72,7 @@ export const LocationInput = ({ onLocationChange, initialLocation }: LocationInp
       // Direct zipcode search
       try {
         setIsLoading(true);
-        const response = await fetch(
+        const response = await providerFetch('mapbox',
           `https://api.mapbox.com/geocoding/v5/mapbox.places/${query}.json?` +
           `access_token=${mapboxToken}&` +
           `country=us&` +
@@ -110,7 +111,7 @@ export const LocationInput = ({ onLocationChange, initialLocation }: LocationInp
       let allSuggestions: LocationSuggestion[] = [];
       
       // Search for places and then reverse geocode to get zipcode
-      const placeResponse = await fetch(
+      const placeResponse = await providerFetch('mapbox',
         `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(query)}.json?` +
         `access_token=${mapboxToken}&` +
         `country=us&` +
@@ -124,7 +125,7 @@ export const LocationInput = ({ onLocationChange, initialLocation }: LocationInp
         // For each place, try to get zipcode via reverse geocoding
         const placePromises = placeData.features.map(async (feature: any) => {
           try {
-            const reverseResponse = await fetch(
+            const reverseResponse = await providerFetch('mapbox',
               `https://api.mapbox.com/geocoding/v5/mapbox.places/${feature.center[0]},${feature.center[1]}.json?` +
               `access_token=${mapboxToken}&` +
               `types=postcode&` +
@@ -270,7 +271,7 @@ export const LocationInput = ({ onLocationChange, initialLocation }: LocationInp
             const { latitude, longitude } = position.coords;
             
             // Reverse geocode to get location details
-            const response = await fetch(
+            const response = await providerFetch('mapbox',
               `https://api.mapbox.com/geocoding/v5/mapbox.places/${longitude},${latitude}.json?` +
               `access_token=${mapboxToken}&` +
               `types=place,postcode&` +
@@ -2,33 +2,34 @@ import React, { useEffect, useRef, useState } from 'react';
 import mapboxgl from 'mapbox-gl';
 import 'mapbox-gl/dist/mapbox-gl.css';
 import { supabase } from '@/integrations/supabase/client';
+import { geocodeListings, type ListingLocation } from '@/lib/geocode';
+import { isPreciseTo } from '@shared/geocode';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { MapPin, ExternalLink, Route, X } from 'lucide-react';
 import { createLogger } from '@/lib/logger';
-interface EstateSale {
-  title: string;
-  address: string;
-  city: string;
-  state: string;
-  zipCode: string;
-  company: string;
-  date: string;
-  time: string;
-  distance: string;
-  status: string;
-  featured: string;
-  url: string;
-  imageUrl: string;
-  description: string;
-  type?: 'estate_sale' | 'thrift_store';
-}
+import type { Listing } from '@shared/listings/types';
+
+// How far from its marker an approximately placed listing may be, drawn as a shaded area around it
+const APPROXIMATE_RADIUS_KM: Record<string, number> = { postal: 3, city: 6 };
+
+const APPROXIMATE_AREAS_SOURCE = 'approximate-areas';
+
+// A circle of `radiusKm` around a point, as a GeoJSON ring (Mapbox has no geographic circles)
+const circleRing = (lng: number, lat: number, radiusKm: number, steps = 48): [number, number][] =>
+  Array.from({ length: steps + 1 }, (_, i) => {
+    const angle = (i / steps) * 2 * Math.PI;
+    const dLat = (radiusKm / 111.32) * Math.sin(angle);
+    const dLng = (radiusKm / (111.32 * Math.cos((lat * Math.PI) / 180))) * Math.cos(angle);
+    return [lng + dLng, lat + dLat];
+  });
 
 interface MapViewProps {
-  sales: EstateSale[];
+  sales: Listing[];
+  // Listing ids
   selectedSales?: string[];
-  onSaleSelection?: (saleTitle: string, selected: boolean) => void;
+  onSaleSelection?: (saleId: string, selected: boolean) => void;
   onPlanRoute?: () => void;
 }
 
@@ -38,8 +39,8 @@ export const MapView = ({ sales, selectedSales = [], onSaleSelection, onPlanRout
   const map = useRef<mapboxgl.Map | null>(null);
   const markersRef = useRef<mapboxgl.Marker[]>([]);
   const [mapboxToken, setMapboxToken] = useState('');
-  const [selectedSale, setSelectedSale] = useState<EstateSale | null>(null);
-  const [coordinates, setCoordinates] = useState<{ [key: string]: [number, number] }>({});
+  const [selectedSale, setSelectedSale] = useState<Listing | null>(null);
+  const [locations, setLocations] = useState<Record<string, ListingLocation>>({});
   const hideTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const [mapInitialized, setMapInitialized] = useState(false);
 
@@ -64,51 +65,29 @@ export const MapView = ({ sales, selectedSales = [], onSaleSelection, onPlanRout
     getMapboxToken();
   }, []);
 
-  // Geocode addresses to get coordinates
+  // Place every listing as exactly as it allows: street addresses as pins, towns and zip codes as areas
   useEffect(() => {
-    const geocodeAddresses = async () => {
-      if (!mapboxToken || !sales.length) return;
-
-      const coords: { [key: string]: [number, number] } = {};
-      
-      for (const sale of sales) {
-        if (!sale.address) continue;
-        
-        try {
-          const response = await fetch(
-            `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(sale.address)}.json?` +
-            `access_token=${mapboxToken}&` +
-            `country=us&` +
-            `limit=1`
-          );
-          
-          const data = await response.json();
-          if (data.features && data.features.length > 0) {
-            const [lng, lat] = data.features[0].center;
-            coords[sale.title] = [lng, lat];
-          }
-        } catch (error) {
-          logger.error('Error geocoding address', { address: sale.address, error });
-        }
-      }
-      
-      setCoordinates(coords);
+    if (!mapboxToken || !sales.length) return;
+    let cancelled = false;
+    geocodeListings(sales).then(placed => {
+      if (!cancelled) setLocations(placed);
+    });
+    return () => {
+      cancelled = true;
     };
-
-    geocodeAddresses();
   }, [mapboxToken, sales]);
 
   // Initialize map (only once when we have coordinates)
+  const hasLocations = Object.keys(locations).length > 0;
   useEffect(() => {
-    const hasCoords = Object.keys(coordinates).length > 0;
-    if (!mapContainer.current || !mapboxToken || mapInitialized || !hasCoords) return;
+    if (!mapContainer.current || !mapboxToken || mapInitialized || !hasLocations) return;
 
     mapboxgl.accessToken = mapboxToken;
     
     // Calculate center from all coordinates
-    const coords = Object.values(coordinates);
-    const avgLng = coords.reduce((sum, [lng]) => sum + lng, 0) / coords.length;
-    const avgLat = coords.reduce((sum, [, lat]) => sum + lat, 0) / coords.length;
+    const coords = Object.values(locations);
+    const avgLng = coords.reduce((sum, { lng }) => sum + lng, 0) / coords.length;
+    const avgLat = coords.reduce((sum, { lat }) => sum + lat, 0) / coords.length;
 
     map.current = new mapboxgl.Map({
       container: mapContainer.current,
@@ -131,33 +110,76 @@ export const MapView = ({ sales, selectedSales = [], onSaleSelection, onPlanRout
         setMapInitialized(false);
       }
     };
-  }, [mapboxToken, Object.keys(coordinates).length > 0]);
+  }, [mapboxToken, hasLocations]);
 
   // Update markers when sales or selections change (without reinitializing map)
   useEffect(() => {
-    if (!map.current || !mapInitialized || !Object.keys(coordinates).length) return;
+    if (!map.current || !mapInitialized || !Object.keys(locations).length) return;
 
     // Clear existing markers
     markersRef.current.forEach(marker => marker.remove());
     markersRef.current = [];
 
+    // Shaded areas for listings only placed by town or zip code
+    const areas: GeoJSON.FeatureCollection = {
+      type: 'FeatureCollection',
+      features: sales.flatMap(sale => {
+        const location = locations[sale.id];
+        if (!location || isPreciseTo(location.precision, 'street')) return [];
+        return [{
+          type: 'Feature' as const,
+          properties: { selected: selectedSales.includes(sale.id) },
+          geometry: { type: 'Polygon' as const, coordinates: [circleRing(location.lng, location.lat, APPROXIMATE_RADIUS_KM[location.precision])] },
+        }];
+      }),
+    };
+    const areaSource = map.current.getSource(APPROXIMATE_AREAS_SOURCE) as mapboxgl.GeoJSONSource | undefined;
+    if (areaSource) {
+      areaSource.setData(areas);
+    } else {
+      map.current.addSource(APPROXIMATE_AREAS_SOURCE, { type: 'geojson', data: areas });
+      map.current.addLayer({
+        id: 'approximate-areas-fill',
+        type: 'fill',
+        source: APPROXIMATE_AREAS_SOURCE,
+        paint: {
+          'fill-color': ['case', ['get', 'selected'], '#b45309', '#64748b'],
+          'fill-opacity': 0.12,
+        },
+      });
+      map.current.addLayer({
+        id: 'approximate-areas-outline',
+        type: 'line',
+        source: APPROXIMATE_AREAS_SOURCE,
+        paint: {
+          'line-color': ['case', ['get', 'selected'], '#b45309', '#64748b'],
+          'line-width': 1,
+          'line-dasharray': [2, 2],
+        },
+      });
+    }
+
     // Add new markers
     sales.forEach((sale) => {
-      const coord = coordinates[sale.title];
-      if (!coord) return;
+      const location = locations[sale.id];
+      if (!location) return;
 
-      const isSelected = selectedSales.includes(sale.title);
+      const isSelected = selectedSales.includes(sale.id);
+      // Approximate places get a hollow, dashed pin so nobody drives to the middle of a town expecting a sale there
+      const isExact = isPreciseTo(location.precision, 'street');
+      const color = isSelected ? 'hsl(var(--primary))' : 'hsl(var(--muted-foreground))';
 
       // Create marker element
       const markerEl = document.createElement('div');
       markerEl.className = 'estate-sale-marker';
+      markerEl.title = isExact ? '' : `Approximate location (${location.precision === 'postal' ? 'zip code' : 'town'} only)`;
       markerEl.style.cssText = `
         width: 40px;
         height: 40px;
-        background: ${isSelected 
-          ? 'linear-gradient(135deg, hsl(var(--primary)), hsl(var(--primary))/0.8)' 
-          : 'linear-gradient(135deg, hsl(var(--muted-foreground)), hsl(var(--muted-foreground))/0.8)'};
-        border: 3px solid ${isSelected ? 'hsl(var(--primary))' : 'white'};
+        background: ${isExact
+          ? `linear-gradient(135deg, ${color}, ${color}/0.8)`
+          : 'hsl(var(--background) / 0.85)'};
+        border: 3px ${isExact ? 'solid' : 'dashed'} ${isExact ? (isSelected ? 'hsl(var(--primary))' : 'white') : color};
         border-radius: 50%;
         cursor: pointer;
         display: flex;
@@ -204,7 +226,7 @@ export const MapView = ({ sales, selectedSales = [], onSaleSelection, onPlanRout
         
         if (onSaleSelection) {
           const newSelection = !isSelected;
-          onSaleSelection(sale.title, newSelection);
+          onSaleSelection(sale.id, newSelection);
           
           // For mobile, provide visual feedback and show sale details
           if ('ontouchstart' in window) {
@@ -222,12 +244,15 @@ export const MapView = ({ sales, selectedSales = [], onSaleSelection, onPlanRout
 
       // Create marker and add to map
       const marker = new mapboxgl.Marker(markerEl)
-        .setLngLat(coord)
+        .setLngLat([location.lng, location.lat])
         .addTo(map.current!);
       
       markersRef.current.push(marker);
     });
-  }, [sales, selectedSales, coordinates, mapInitialized, onSaleSelection]);
+  }, [sales, selectedSales, locations, mapInitialized, onSaleSelection]);
+
+  // Only counted once geocoding has answered, so the map doesn't flash a warning while it loads
+  const unplacedCount = Object.keys(locations).length > 0 ? sales.filter(sale => !locations[sale.id]).length : 0;
 
   if (!mapboxToken) {
     return (
@@ -291,6 +316,11 @@ export const MapView = ({ sales, selectedSales = [], onSaleSelection, onPlanRout
             
             <div className="space-y-1 text-xs">
               <p className="text-muted-foreground">{selectedSale.address}</p>
+              {locations[selectedSale.id] && !isPreciseTo(locations[selectedSale.id].precision, 'street') && (
+                <p className="text-muted-foreground italic">
+                  Approximate location: only the {locations[selectedSale.id].precision === 'postal' ? 'zip code' : 'town'} is known
+                </p>
+              )}
               {selectedSale.date && (
                 <p className="text-foreground font-medium">{selectedSale.date}</p>
               )}
@@ -352,9 +382,9 @@ export const MapView = ({ sales, selectedSales = [], onSaleSelection, onPlanRout
                 )}
                 <Button
                   onClick={() => {
-                    selectedSales.forEach(saleTitle => {
+                    selectedSales.forEach(saleId => {
                       if (onSaleSelection) {
-                        onSaleSelection(saleTitle, false);
+                        onSaleSelection(saleId, false);
                       }
                     });
                   }}
@@ -375,8 +405,13 @@ export const MapView = ({ sales, selectedSales = [], onSaleSelection, onPlanRout
         <div className="absolute bottom-4 left-4 right-4 z-10">
           <Card className="p-3 bg-background/95 backdrop-blur-sm border shadow-lg">
             <p className="text-xs text-muted-foreground text-center">
-              Click on treasure boxes to select sales for route planning
+              Click on treasure boxes to select sales for route planning. Hollow markers and shaded areas are approximate.
             </p>
+            {unplacedCount > 0 && (
+              <p className="text-xs text-muted-foreground text-center mt-1">
+                {unplacedCount} listing{unplacedCount === 1 ? '' : 's'} give no location and can't be shown
+              </p>
+            )}
           </Card>
         </div>
       )}
@@ -0,0 +1,233 @@
+import { useState, type ReactNode } from 'react';
+import { format } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarDays, ChevronDown, SlidersHorizontal } from 'lucide-react';
+import { listingSources } from '@/utils/sources/registry';
+import {
+  activeFilterCount, defaultResultFilters, toLocalDay, FEATURED_LEVELS, PICTURE_THRESHOLDS, SALE_STATUSES, TIMES_OF_DAY,
+  type FacetCounts, type ResultFilters,
+} from '@shared/listings/filters';
+
+interface ResultFilterPanelProps {
+  filters: ResultFilters;
+  onFiltersChange: (filters: ResultFilters) => void;
+  counts: FacetCounts;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Companies beyond this many are reachable by narrowing the other filters first
+const MAX_COMPANIES = 12;
+
+const fromLocalDay = (day?: string) => {
+  if (!day) return undefined;
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+// One choice in a facet: a small toggle button with how many results it would leave
+const FacetOption = ({ label, count, selected, onClick }: { label: string; count: number; selected: boolean; onClick: () => void }) => (
+  <Button
+    type="button"
+    variant={selected ? 'default' : 'outline'}
+    size="sm"
+    onClick={onClick}
+    disabled={!selected && count === 0}
+    className="h-7 px-2 text-xs"
+  >
+    {label} ({count})
+  </Button>
+);
+
+const FacetGroup = ({ label, children }: { label: string; children: ReactNode }) => (
+  <div className="space-y-2">
+    <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{label}</div>
+    <div className="flex flex-wrap gap-1.5">{children}</div>
+  </div>
+);
+
+export const ResultFilterPanel = ({ filters, onFiltersChange, counts }: ResultFilterPanelProps) => {
+  const [open, setOpen] = useState(false);
+  const active = activeFilterCount(filters);
+  const update = (changes: Partial<ResultFilters>) => onFiltersChange({ ...filters, ...changes });
+
+  const dateRange: DateRange = { from: fromLocalDay(filters.dateFrom), to: fromLocalDay(filters.dateTo) };
+  const dateLabel = dateRange.from
+    ? `${format(dateRange.from, 'MMM d')}${dateRange.to ? ` – ${format(dateRange.to, 'MMM d')}` : ' onward'}`
+    : 'Any date';
+
+  const companies = Object.entries(counts.company)
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, MAX_COMPANIES)
+    .map(([company]) => company);
+  // Chosen companies stay visible even when they fall out of the top list
+  filters.companies.forEach(company => { if (!companies.includes(company)) companies.push(company); });
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mb-4 rounded-lg bg-muted/30 p-2 sm:p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <CollapsibleTrigger asChild>
+          <Button variant="outline" size="sm" className="h-8 text-xs sm:text-sm">
+            <SlidersHorizontal className="w-3 h-3 sm:w-4 sm:h-4 mr-1" />
+            Filters{active > 0 ? ` (${active})` : ''}
+            <ChevronDown className={`w-3 h-3 ml-1 transition-transform ${open ? 'rotate-180' : ''}`} />
+          </Button>
+        </CollapsibleTrigger>
+        <Badge variant="outline" className="text-xs flex items-center gap-1">
+          <CalendarDays className="w-3 h-3" />
+          {dateLabel}
+        </Badge>
+        {active > 0 && (
+          <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => onFiltersChange(defaultResultFilters())}>
+            Reset filters
+          </Button>
+        )}
+      </div>
+
+      <CollapsibleContent className="mt-3 grid grid-cols-1 gap-4 md:grid-cols-2">
+        <FacetGroup label="Dates">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button type="button" variant="outline" size="sm" className="h-7 px-2 text-xs">
+                <CalendarDays className="w-3 h-3 mr-1" />
+                {dateLabel}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="range"
+                selected={dateRange}
+                onSelect={(range) => update({
+                  dateFrom: range?.from ? toLocalDay(range.from) : undefined,
+                  dateTo: range?.to ? toLocalDay(range.to) : undefined,
+                })}
+                numberOfMonths={1}
+              />
+            </PopoverContent>
+          </Popover>
+          {(filters.dateFrom || filters.dateTo) && (
+            <Button type="button" variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => update({ dateFrom: undefined, dateTo: undefined })}>
+              Any date
+            </Button>
+          )}
+        </FacetGroup>
+
+        <FacetGroup label="Day of week">
+          {WEEKDAYS.map((day, index) => (
+            <FacetOption
+              key={day}
+              label={day}
+              count={counts.weekday[index] || 0}
+              selected={filters.weekdays.includes(index)}
+              onClick={() => update({ weekdays: toggle(filters.weekdays, index) })}
+            />
+          ))}
+        </FacetGroup>
+
+        <FacetGroup label="Time of day">
+          {TIMES_OF_DAY.map(time => (
+            <FacetOption
+              key={time.id}
+              label={time.label}
+              count={counts.timeOfDay[time.id] || 0}
+              selected={filters.timesOfDay.includes(time.id)}
+              onClick={() => update({ timesOfDay: toggle(filters.timesOfDay, time.id) })}
+            />
+          ))}
+        </FacetGroup>
+
+        <FacetGroup label="Status">
+          {SALE_STATUSES.map(status => (
+            <FacetOption
+              key={status.id}
+              label={status.label}
+              count={counts.status[status.id] || 0}
+              selected={filters.statuses.includes(status.id)}
+              onClick={() => update({ statuses: toggle(filters.statuses, status.id) })}
+            />
+          ))}
+        </FacetGroup>
+
+        <FacetGroup label="Source">
+          {Array.from(new Set([...Object.keys(counts.source), ...filters.sources])).map(sourceId => (
+            <FacetOption
+              key={sourceId}
+              label={listingSources.get(sourceId)?.label || sourceId}
+              count={counts.source[sourceId] || 0}
+              selected={filters.sources.includes(sourceId)}
+              onClick={() => update({ sources: toggle(filters.sources, sourceId) })}
+            />
+          ))}
+        </FacetGroup>
+
+        <FacetGroup label="Featured">
+          {FEATURED_LEVELS.map(level => (
+            <FacetOption
+              key={level.id}
+              label={level.label}
+              count={counts.featured[level.id] || 0}
+              selected={filters.featured.includes(level.id)}
+              onClick={() => update({ featured: toggle(filters.featured, level.id) })}
+            />
+          ))}
+        </FacetGroup>
+
+        {companies.length > 0 && (
+          <div className="md:col-span-2">
+            <FacetGroup label="Company">
+              {companies.map(company => (
+                <FacetOption
+                  key={company}
+                  label={company}
+                  count={counts.company[company] || 0}
+                  selected={filters.companies.includes(company)}
+                  onClick={() => update({ companies: toggle(filters.companies, company) })}
+                />
+              ))}
+            </FacetGroup>
+          </div>
+        )}
+
+        <FacetGroup label="Pictures">
+          <Select value={filters.minPictures.toString()} onValueChange={(value) => update({ minPictures: parseInt(value) })}>
+            <SelectTrigger className="h-7 w-40 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="z-50 bg-card">
+              <SelectItem value="0">Any number</SelectItem>
+              {PICTURE_THRESHOLDS.map(threshold => (
+                <SelectItem key={threshold} value={threshold.toString()}>
+                  {threshold}+ pictures ({counts.pictures[threshold] || 0})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </FacetGroup>
+
+        <FacetGroup label="Address">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="filter-street-address"
+              checked={filters.streetAddressOnly}
+              onCheckedChange={(checked) => update({ streetAddressOnly: !!checked })}
+              className="h-4 w-4"
+            />
+            <label htmlFor="filter-street-address" className="text-xs sm:text-sm text-muted-foreground cursor-pointer">
+              Has a street address ({counts.streetAddress.yes || 0})
+            </label>
+          </div>
+        </FacetGroup>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -9,21 +9,14 @@ import { Label } from "@/components/ui/label";
 import { MapPin, Route, Clock, Navigation, Plus, ExternalLink, Car } from 'lucide-react';
 import { useToast } from "@/components/ui/use-toast";
 import { supabase } from '@/integrations/supabase/client';
+import { providerFetch } from '@/lib/providerTransport';
+import { geocodeAddress as geocode } from '@/lib/geocode';
+import { extractAddressFromMarkdown } from '@shared/listings/markdownFields';
+import type { Listing } from '@shared/listings/types';
 
-interface EstateSale {
-  title?: string;
-  date?: string;
-  address?: string;
-  description?: string;
-  url?: string;
-  status?: string;
-  company?: string;
-  distance?: string;
-  markdown?: string;
-}
 
 interface RouteMapProps {
-  selectedSales: EstateSale[];
+  selectedSales: Listing[];
   onClose: () => void;
 }
 
@@ -73,22 +66,10 @@ export const RouteMap = ({ selectedSales, onClose }: RouteMapProps) => {
     }
   };
 
-  // Geocoding function to convert addresses to coordinates
+  // Geocoding function to convert addresses to [lng, lat] coordinates
   const geocodeAddress = async (address: string): Promise<[number, number] | null> => {
-    try {
-      const response = await fetch(
-        `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(address)}.json?access_token=${mapboxToken}&country=us`
-      );
-      const data = await response.json();
-      
-      if (data.features && data.features.length > 0) {
-        return data.features[0].center;
-      }
-      return null;
-    } catch (error) {
-      console.error('Geocoding error:', error);
-      return null;
-    }
+    const result = await geocode(address);
+    return result ? [result.lng, result.lat] : null;
   };
 
   // Autocomplete function for starting address
@@ -100,7 +81,7 @@ export const RouteMap = ({ selectedSales, onClose }: RouteMapProps) => {
     }
 
     try {
-      const response = await fetch(
+      const response = await providerFetch('mapbox',
         `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(query)}.json?` +
         `access_token=${mapboxToken}&` +
         `country=us&` +
@@ -202,7 +183,7 @@ export const RouteMap = ({ selectedSales, onClose }: RouteMapProps) => {
   };
 
   // Generate directions from waypoints and sales data
-  const generateDirections = (waypoints: any[], sales: EstateSale[], includeStart: boolean) => {
+  const generateDirections = (waypoints: any[], sales: Listing[], includeStart: boolean) => {
     const directions: Array<{title: string, address: string, coords: [number, number], googleMapsUrl: string}> = [];
     
     // Safety check for waypoints
@@ -245,55 +226,18 @@ export const RouteMap = ({ selectedSales, onClose }: RouteMapProps) => {
   };
 
   // Helper function to extract address from sale (moved from inside useEffect)
-  const extractAddressFromSale = (sale: EstateSale): string | null => {
+  const extractAddressFromSale = (sale: Listing): string | null => {
     // First try the parsed address field from FirecrawlService
     if (sale.address && sale.address.trim()) {
       return sale.address.trim();
     }
     
     // Then try to extract address from markdown
-    if (sale.markdown) {
-      // Look for the actual street address in the markdown
-      const streetAddressPattern = /(\d+\s+[^\\,\n]+(?:pkwy|parkway|drive|dr\.?|road|rd\.?|street|st\.?|avenue|ave\.?|lane|ln\.?|court|ct\.?|boulevard|blvd\.?|circle|cir\.?|way|place|pl\.?))\s*\\{2,}\s*\\{2,}\s*([^\\,\n]+),?\s*([A-Z]{2})\s*(\d{5})?/i;
-      const streetMatch = sale.markdown.match(streetAddressPattern);
-      
-      if (streetMatch) {
-        const streetAddress = streetMatch[1].trim();
-        const city = streetMatch[2].trim();
-        const state = streetMatch[3];
-        const zip = streetMatch[4] || '';
-        
-        let fullAddress = streetAddress + `, ${city}, ${state}`;
-        if (zip) {
-          fullAddress += ` ${zip}`;
-        }
-        
-        return fullAddress;
-      }
-      
-      // Look for city, state, zip pattern
-      const cityStatePattern = /([A-Z][a-z\s]+),?\s*([A-Z]{2})\s*(\d{5})/i;
-      const cityMatch = sale.markdown.match(cityStatePattern);
-      
-      if (cityMatch) {
-        const city = cityMatch[1].trim();
-        const state = cityMatch[2];
-        const zip = cityMatch[3] || '';
-        
-        let fullAddress = `${city}, ${state}`;
-        if (zip) {
-          fullAddress += ` ${zip}`;
-        }
-        
-        return fullAddress;
-      }
-    }
-    
-    return null;
+    return sale.markdown ? extractAddressFromMarkdown(sale.markdown) : null;
   };
 
   // Create fallback directions when waypoints are not available from API
-  const createFallbackDirections = (coordinates: [number, number][], sales: EstateSale[], includeStart: boolean) => {
+  const createFallbackDirections = (coordinates: [number, number][], sales: Listing[], includeStart: boolean) => {
     const directions: Array<{title: string, address: string, coords: [number, number], googleMapsUrl: string}> = [];
     
     // Add starting point if included
@@ -325,9 +269,9 @@ export const RouteMap = ({ selectedSales, onClose }: RouteMapProps) => {
   };
 
   // Calculate optimized route using Mapbox Optimization API (TSP solver)
-  const calculateOptimizedRoute = async (coordinates: [number, number][], salesData: EstateSale[], includeStart: boolean = false) => {
+  const calculateOptimizedRoute = async (coordinates: [number, number][], salesData: Listing[], includeStart: boolean = false) => {
     // Remove duplicate sales data based on address to prevent duplicate waypoints
-    const uniqueSalesData: EstateSale[] = [];
+    const uniqueSalesData: Listing[] = [];
     const uniqueCoordinates: [number, number][] = [];
     const seenAddresses = new Set<string>();
     
@@ -378,7 +322,7 @@ export const RouteMap = ({ selectedSales, onClose }: RouteMapProps) => {
         params.append('destination', 'any');
       }
       
-      const response = await fetch(
+      const response = await providerFetch('mapbox',
         `https://api.mapbox.com/optimized-trips/v1/mapbox/driving-traffic/${waypoints}?${params.toString()}`
       );
       
@@ -460,7 +404,7 @@ export const RouteMap = ({ selectedSales, onClose }: RouteMapProps) => {
     // Add navigation controls
     map.current.addControl(new mapboxgl.NavigationControl(), 'top-right');
 
-    const extractAddressFromMarkdown = (sale: EstateSale): string | null => {
+    const extractSaleAddress = (sale: Listing): string | null => {
       // First try the parsed address field from FirecrawlService
       if (sale.address && sale.address.trim()) {
         console.log('Using parsed address:', sale.address);
@@ -470,45 +414,12 @@ export const RouteMap = ({ selectedSales, onClose }: RouteMapProps) => {
       // Then try to extract address from markdown
       if (sale.markdown) {
         console.log('Extracting address from markdown:', sale.markdown.substring(0, 300));
-        
-        // Look for the actual street address in the markdown
-        // Pattern: street address followed by city, state zip (split by \\)
-        const streetAddressPattern = /(\d+\s+[^\\,\n]+(?:pkwy|parkway|drive|dr\.?|road|rd\.?|street|st\.?|avenue|ave\.?|lane|ln\.?|court|ct\.?|boulevard|blvd\.?|circle|cir\.?|way|place|pl\.?))\s*\\{2,}\s*\\{2,}\s*([^\\,\n]+),?\s*([A-Z]{2})\s*(\d{5})?/i;
-        const streetMatch = sale.markdown.match(streetAddressPattern);
-        
-        if (streetMatch) {
-          const streetAddress = streetMatch[1].trim();
-          const city = streetMatch[2].trim();
-          const state = streetMatch[3];
-          const zip = streetMatch[4] || '';
-          
-          let fullAddress = streetAddress + `, ${city}, ${state}`;
-          if (zip) {
-            fullAddress += ` ${zip}`;
-          }
-          
-          console.log('Extracted street address:', fullAddress);
-          return fullAddress;
+        const extractedAddress = extractAddressFromMarkdown(sale.markdown);
+        if (extractedAddress) {
+          console.log('Extracted address:', extractedAddress);
+          return extractedAddress;
         }
-        
-        // Look for city, state, zip pattern (for appointment-only sales without street addresses)
-        const cityStatePattern = /([A-Z][a-z\s]+),?\s*([A-Z]{2})\s*(\d{5})/i;
-        const cityMatch = sale.markdown.match(cityStatePattern);
-        
-        if (cityMatch) {
-          const city = cityMatch[1].trim();
-          const state = cityMatch[2];
-          const zip = cityMatch[3] || '';
-          
-          let fullAddress = `${city}, ${state}`;
-          if (zip) {
-            fullAddress += ` ${zip}`;
-          }
-          
-          console.log('Extracted city/state address:', fullAddress);
-          return fullAddress;
-        }
-        
+
         console.log('No address pattern matched for sale:', sale.title);
       }
       
@@ -525,7 +436,7 @@ export const RouteMap = ({ selectedSales, onClose }: RouteMapProps) => {
       // Geocode all addresses
       const coordinates: [number, number][] = [];
       const markers: mapboxgl.Marker[] = [];
-      const validSales: EstateSale[] = [];
+      const validSales: Listing[] = [];
       
       for (let i = 0; i < selectedSales.length; i++) {
         const sale = selectedSales[i];
@@ -539,7 +450,7 @@ export const RouteMap = ({ selectedSales, onClose }: RouteMapProps) => {
           console.log('Markdown preview (first 500 chars):', sale.markdown.substring(0, 500));
         }
         
-        const extractedAddress = extractAddressFromMarkdown(sale);
+        const extractedAddress = extractSaleAddress(sale);
         console.log('✓ Extracted address:', extractedAddress);
         
         if (!extractedAddress) {
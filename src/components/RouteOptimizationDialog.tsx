@@ -1,35 +1,22 @@
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/components/ui/use-toast";
-import { MapPin, Route, Clock, Loader2, Navigation } from 'lucide-react';
+import { MapPin, Route, Clock, Loader2, Navigation, Link2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { createLogger } from '@/lib/logger';
+import { extractAddressFromMarkdown } from '@shared/listings/markdownFields';
+import type { Listing } from '@shared/listings/types';
 
-interface EstateSale {
-  title?: string;
-  date?: string;
-  address?: string;
-  description?: string;
-  url?: string;
-  status?: string;
-  company?: string;
-  distance?: string;
-  markdown?: string;
-  city?: string;
-  state?: string;
-  zipCode?: string;
-  streetAddress?: string;
-  uniqueId?: string;
-}
 
 interface RouteOptimizationDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  selectedSales: EstateSale[];
+  selectedSales: Listing[];
 }
 
 export const RouteOptimizationDialog = ({ open, onOpenChange, selectedSales }: RouteOptimizationDialogProps) => {
@@ -38,49 +25,11 @@ export const RouteOptimizationDialog = ({ open, onOpenChange, selectedSales }: R
   const [startingAddress, setStartingAddress] = useState('');
   const [isOptimizing, setIsOptimizing] = useState(false);
   const [optimizedRoute, setOptimizedRoute] = useState<string[]>([]);
+  // Listing id for each stop in optimizedRoute (null for the start)
+  const [optimizedStopIds, setOptimizedStopIds] = useState<(string | null)[]>([]);
   const [googleMapsUrl, setGoogleMapsUrl] = useState<string>('');
-
-  // Helper function to extract address from markdown
-  const extractAddressFromMarkdown = (markdown: string): string | null => {
-    if (!markdown) return null;
-    
-    // Look for street address patterns in markdown
-    const streetAddressPattern = /(\d+\s+[^\\,\n]+(?:pkwy|parkway|drive|dr\.?|road|rd\.?|street|st\.?|avenue|ave\.?|lane|ln\.?|court|ct\.?|boulevard|blvd\.?|circle|cir\.?|way|place|pl\.?))\s*\\{2,}\s*\\{2,}\s*([^\\,\n]+),?\s*([A-Z]{2})\s*(\d{5})?/i;
-    const streetMatch = markdown.match(streetAddressPattern);
-    
-    if (streetMatch) {
-      const streetAddress = streetMatch[1].trim();
-      const city = streetMatch[2].trim();
-      const state = streetMatch[3];
-      const zip = streetMatch[4] || '';
-      
-      let fullAddress = streetAddress + `, ${city}, ${state}`;
-      if (zip) {
-        fullAddress += ` ${zip}`;
-      }
-      
-      return fullAddress;
-    }
-    
-    // Look for city, state, zip pattern
-    const cityStatePattern = /([A-Z][a-z\s]+),?\s*([A-Z]{2})\s*(\d{5})/i;
-    const cityMatch = markdown.match(cityStatePattern);
-    
-    if (cityMatch) {
-      const city = cityMatch[1].trim();
-      const state = cityMatch[2];
-      const zip = cityMatch[3] || '';
-      
-      let fullAddress = `${city}, ${state}`;
-      if (zip) {
-        fullAddress += ` ${zip}`;
-      }
-      
-      return fullAddress;
-    }
-    
-    return null;
-  };
+  // Saved copy of the route at /route/:id; null when it couldn't be saved
+  const [routeId, setRouteId] = useState<string | null>(null);
 
   const handleOptimizeRoute = async () => {
     if (!startingAddress.trim()) {
@@ -112,7 +61,8 @@ export const RouteOptimizationDialog = ({ open, onOpenChange, selectedSales }: R
       const { data, error } = await supabase.functions.invoke('optimize-route', {
         body: { 
           addresses: allAddresses,
-          startingAddress: startingAddress 
+          startingAddress: startingAddress,
+          stopIds: [null, ...selectedSales.map(sale => sale.id)]
         }
       });
       const durationMs = Math.round(performance.now() - t0);
@@ -127,7 +77,9 @@ export const RouteOptimizationDialog = ({ open, onOpenChange, selectedSales }: R
       } else if (data?.optimizedRoute) {
         logger.info('Optimized route received', { durationMs, stops: data.optimizedRoute.length });
         setOptimizedRoute(data.optimizedRoute);
+        setOptimizedStopIds(data.optimizedStopIds || []);
         setGoogleMapsUrl(data.googleMapsUrl || '');
+        setRouteId(data.routeId || null);
         
         toast({
           title: "Route Optimized!",
@@ -164,6 +116,7 @@ export const RouteOptimizationDialog = ({ open, onOpenChange, selectedSales }: R
   const handleReset = () => {
     setOptimizedRoute([]);
     setGoogleMapsUrl('');
+    setRouteId(null);
     setStartingAddress('');
   };
 
@@ -253,14 +206,8 @@ export const RouteOptimizationDialog = ({ open, onOpenChange, selectedSales }: R
               <div className="space-y-3">
                 {optimizedRoute.map((address, index) => {
                   const isStarting = index === 0;
-                  const saleIndex = isStarting ? null : selectedSales.findIndex(sale => {
-                    const saleAddress = sale.address || 
-                      (sale.markdown ? extractAddressFromMarkdown(sale.markdown) : null) ||
-                      'Address TBD';
-                    return saleAddress === address;
-                  });
-                  
-                  const sale = saleIndex !== null && saleIndex >= 0 ? selectedSales[saleIndex] : null;
+                  const stopId = optimizedStopIds[index];
+                  const sale = isStarting ? null : selectedSales.find(s => s.id === stopId) || null;
 
                   return (
                     <div key={index} className="flex items-start gap-3 p-3 rounded-lg border bg-card/50">
@@ -310,6 +257,25 @@ export const RouteOptimizationDialog = ({ open, onOpenChange, selectedSales }: R
                     Get Directions in Google Maps
                   </Button>
                 )}
+
+                {routeId && (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={async () => {
+                      await navigator.clipboard.writeText(`${window.location.origin}/route/${routeId}`);
+                      toast({ title: "Link Copied", description: "Anyone with the link can open this route" });
+                    }}
+                  >
+                    <Link2 className="w-4 h-4 mr-2" />
+                    Copy Route Link
+                  </Button>
+                )}
+                {routeId && (
+                  <Link to={`/route/${routeId}`} className="block text-center text-xs text-primary hover:underline">
+                    Open the saved route page
+                  </Link>
+                )}
                 
                 <div className="flex gap-2">
                   <Button 
@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { BookmarkPlus, Loader2 } from 'lucide-react';
+import { createLogger } from '@/lib/logger';
+import { saveSearch } from '@/lib/savedSearches';
+import { type SearchState } from '@/lib/searchUrl';
+import { locationParts } from '@shared/listings/distance';
+import { hasNothingToRun } from '@shared/savedSearches';
+
+const logger = createLogger('SaveSearchDialog');
+
+interface SaveSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  search: Pick<SearchState, 'location' | 'radius' | 'sources' | 'saleTypes' | 'filters' | 'keywords'>;
+}
+
+// Saves the search on screen so the scheduled run can report sales listed after today
+export const SaveSearchDialog = ({ open, onOpenChange, search }: SaveSearchDialogProps) => {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const place = locationParts(search.location);
+  const suggestedName = [place?.city, search.keywords.trim()].filter(Boolean).join(': ') || 'My search';
+  const unrunnable = hasNothingToRun(search.sources || []);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const { run } = await saveSearch(name.trim() || suggestedName, search);
+      toast({
+        title: "Search saved",
+        description: run.error
+          ? `Saved, but its first run had trouble (${run.error}). Sales it missed may show up as new next time.`
+          : `${run.matched} sale${run.matched === 1 ? '' : 's'} match today. New ones will show up in your inbox.`,
+      });
+      setName('');
+      onOpenChange(false);
+    } catch (error) {
+      logger.error('Saving search failed', { error });
+      toast({
+        title: "Couldn't save the search",
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookmarkPlus className="w-5 h-5 text-primary" />
+            Save Search
+          </DialogTitle>
+          <DialogDescription>
+            Saved searches run again on a schedule; sales that weren't there before land in the{' '}
+            <Link to="/inbox" className="text-primary hover:underline">inbox</Link>. The location, radius, sources,
+            filters and keywords are saved; the date range isn't, so every run looks at sales that haven't ended.
+          </DialogDescription>
+        </DialogHeader>
+        {unrunnable && (
+          <p className="text-sm text-destructive">
+            Saved searches re-run EstateSales.net and Craigslist only. Turn on one of them to save this search.
+          </p>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="saved-search-name">Name</Label>
+          <Input
+            id="saved-search-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={suggestedName}
+            onKeyDown={(e) => { if (e.key === 'Enter' && !isSaving && !unrunnable) handleSave(); }}
+          />
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={isSaving || unrunnable}>
+            {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <BookmarkPlus className="w-4 h-4 mr-2" />}
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
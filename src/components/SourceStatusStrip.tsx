@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { AlertTriangle, CheckCircle2, ChevronDown, XCircle } from 'lucide-react';
+import { listingSources } from '@/utils/sources/registry';
+import type { SourceDiagnostics } from '@/utils/sources/types';
+
+interface SourceStatusStripProps {
+  diagnostics: SourceDiagnostics[];
+}
+
+const shortUrl = (url: string) => url.replace(/^https?:\/\/(www\.)?/, '');
+
+const statusOf = (d: SourceDiagnostics) =>
+  !d.ok ? 'error' : d.parserDrift ? 'drift' : 'ok';
+
+export const SourceStatusStrip = ({ diagnostics }: SourceStatusStripProps) => {
+  const [open, setOpen] = useState(false);
+  const hasPages = diagnostics.some(d => d.pages?.length);
+
+  if (diagnostics.length === 0) return null;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mb-4 rounded-lg bg-muted/30 p-2 sm:p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {diagnostics.map(d => {
+          const source = listingSources.get(d.sourceId);
+          const status = statusOf(d);
+          return (
+            <Badge
+              key={d.sourceId}
+              variant="outline"
+              className={`text-xs flex items-center gap-1 ${
+                status === 'error' ? 'border-destructive text-destructive' : status === 'drift' ? 'border-amber-500 text-amber-600' : ''
+              }`}
+              title={d.error || (d.parserDrift ? 'Pages were fetched but nothing could be parsed' : undefined)}
+            >
+              {status === 'error' && <XCircle className="w-3 h-3" />}
+              {status === 'drift' && <AlertTriangle className="w-3 h-3" />}
+              {status === 'ok' && <CheckCircle2 className="w-3 h-3 text-treasure-green" />}
+              {source?.label || d.sourceId}
+              <span className="text-muted-foreground">
+                {status === 'error' ? d.failure || 'failed' : status === 'drift' ? 'parser drift?' : `${d.listingCount}`} · {(d.durationMs / 1000).toFixed(1)}s
+              </span>
+            </Badge>
+          );
+        })}
+        {hasPages && (
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs ml-auto">
+              Details
+              <ChevronDown className={`w-3 h-3 ml-1 transition-transform ${open ? 'rotate-180' : ''}`} />
+            </Button>
+          </CollapsibleTrigger>
+        )}
+      </div>
+
+      <CollapsibleContent className="mt-3 space-y-3">
+        {diagnostics.map(d => (
+          <div key={d.sourceId} className="text-xs space-y-1">
+            <div className="font-medium text-foreground">
+              {listingSources.get(d.sourceId)?.label || d.sourceId}
+              {d.error && <span className="text-destructive font-normal"> — {d.error}</span>}
+              {d.parserDrift && (
+                <span className="text-amber-600 font-normal"> — markdown came back but no listings were parsed; the site layout may have changed</span>
+              )}
+            </div>
+            {d.pages?.map(page => (
+              <div key={page.url} className="grid grid-cols-[1fr_auto] gap-2 pl-3 text-muted-foreground">
+                <span className="truncate" title={page.url}>
+                  {page.ok ? (page.cached ? 'cached' : 'fetched') : page.failure || 'failed'}
+                  {page.backend && page.backend !== 'firecrawl' && !page.cached ? ` via ${page.backend}` : ''} · {shortUrl(page.url)}
+                </span>
+                <span className={page.parserDrift ? 'text-amber-600' : ''}>
+                  {page.ok
+                    ? `${page.markdownLength.toLocaleString()} chars · ${page.blocksFound} blocks · ${page.listingsProduced} listings`
+                    : page.error || 'fetch failed'}
+                  {Object.entries(page.blocksSkipped).map(([reason, count]) => ` · ${count} ${reason}`).join('')}
+                </span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -14,6 +14,42 @@ export type Database = {
   }
   public: {
     Tables: {
+      geocode_cache: {
+        Row: {
+          address_key: string
+          created_at: string
+          fetched_at: string
+          formatted_address: string | null
+          lat: number
+          lng: number
+          precision: string
+          provider: string
+          updated_at: string
+        }
+        Insert: {
+          address_key: string
+          created_at?: string
+          fetched_at?: string
+          formatted_address?: string | null
+          lat: number
+          lng: number
+          precision: string
+          provider: string
+          updated_at?: string
+        }
+        Update: {
+          address_key?: string
+          created_at?: string
+          fetched_at?: string
+          formatted_address?: string | null
+          lat?: number
+          lng?: number
+          precision?: string
+          provider?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       image_jobs: {
         Row: {
           attempts: number
@@ -115,6 +151,235 @@ export type Database = {
           },
         ]
       }
+      sale_revisions: {
+        Row: {
+          field: string
+          id: string
+          new_value: string | null
+          observed_at: string
+          old_value: string | null
+          sale_id: string
+        }
+        Insert: {
+          field: string
+          id?: string
+          new_value?: string | null
+          observed_at?: string
+          old_value?: string | null
+          sale_id: string
+        }
+        Update: {
+          field?: string
+          id?: string
+          new_value?: string | null
+          observed_at?: string
+          old_value?: string | null
+          sale_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_revisions_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales: {
+        Row: {
+          address: string | null
+          address_detailed: boolean
+          created_at: string
+          first_seen_at: string
+          id: string
+          last_modified: string | null
+          last_seen_at: string
+          payload: Json
+          photo_count: number | null
+          sale_dates: string | null
+          source: string
+          title: string
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          address?: string | null
+          address_detailed?: boolean
+          created_at?: string
+          first_seen_at?: string
+          id: string
+          last_modified?: string | null
+          last_seen_at?: string
+          payload: Json
+          photo_count?: number | null
+          sale_dates?: string | null
+          source: string
+          title: string
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          address?: string | null
+          address_detailed?: boolean
+          created_at?: string
+          first_seen_at?: string
+          id?: string
+          last_modified?: string | null
+          last_seen_at?: string
+          payload?: Json
+          photo_count?: number | null
+          sale_dates?: string | null
+          source?: string
+          title?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: []
+      }
+      saved_routes: {
+        Row: {
+          created_at: string
+          google_maps_url: string
+          id: string
+          starting_address: string
+          stops: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          google_maps_url: string
+          id?: string
+          starting_address: string
+          stops: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          google_maps_url?: string
+          id?: string
+          starting_address?: string
+          stops?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      saved_search_matches: {
+        Row: {
+          baseline: boolean
+          found_at: string
+          id: string
+          listing: Json
+          read_at: string | null
+          sale_id: string
+          saved_search_id: string
+        }
+        Insert: {
+          baseline?: boolean
+          found_at?: string
+          id?: string
+          listing: Json
+          read_at?: string | null
+          sale_id: string
+          saved_search_id: string
+        }
+        Update: {
+          baseline?: boolean
+          found_at?: string
+          id?: string
+          listing?: Json
+          read_at?: string | null
+          sale_id?: string
+          saved_search_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_search_matches_saved_search_id_fkey"
+            columns: ["saved_search_id"]
+            isOneToOne: false
+            referencedRelation: "saved_searches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_searches: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          filters: Json
+          id: string
+          keywords: string
+          last_run_at: string | null
+          last_run_error: string | null
+          location: string
+          name: string
+          radius: number
+          sale_types: string[]
+          sources: string[]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          filters?: Json
+          id?: string
+          keywords?: string
+          last_run_at?: string | null
+          last_run_error?: string | null
+          location: string
+          name: string
+          radius?: number
+          sale_types?: string[]
+          sources?: string[]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          filters?: Json
+          id?: string
+          keywords?: string
+          last_run_at?: string | null
+          last_run_error?: string | null
+          location?: string
+          name?: string
+          radius?: number
+          sale_types?: string[]
+          sources?: string[]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      scrape_cache: {
+        Row: {
+          content_hash: string
+          created_at: string
+          fetched_at: string
+          markdown: string
+          source: string | null
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          content_hash: string
+          created_at?: string
+          fetched_at?: string
+          markdown: string
+          source?: string | null
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          content_hash?: string
+          created_at?: string
+          fetched_at?: string
+          markdown?: string
+          source?: string | null
+          updated_at?: string
+          url?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
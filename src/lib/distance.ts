@@ -0,0 +1,100 @@
+import { supabase } from '@/integrations/supabase/client';
+import { createLogger } from '@/lib/logger';
+import { providerFetch } from '@/lib/providerTransport';
+import { geocodeAddress, geocodeListings } from '@/lib/geocode';
+import { isPreciseTo } from '@shared/geocode';
+import { milesBetween, searchOriginQuery } from '@shared/listings/distance';
+import type { Listing } from '@shared/listings/types';
+
+// How far each listing is from where the user searched, measured from coordinates rather than read off the
+// sites' own "X miles away" text (which Craigslist doesn't give and estatesales.net sometimes words as "Nearby").
+
+const logger = createLogger('Distance');
+
+const METERS_PER_MILE = 1609.344;
+
+// Mapbox's matrix takes 25 coordinates per request: the origin plus 24 listings
+const MATRIX_DESTINATIONS = 24;
+
+export interface ListingDistance {
+  // Straight line from the search origin
+  miles: number;
+  // By road, when drive distances were asked for and Mapbox found a route
+  driveMiles?: number;
+  // The listing was only placed by town or zip code, so the distance is rough
+  approximate: boolean;
+}
+
+// The distance used for radius filtering and sorting: by road when known, else straight line
+export const effectiveMiles = (distance?: ListingDistance) =>
+  distance ? distance.driveMiles ?? distance.miles : undefined;
+
+let mapboxToken: Promise<string | null> | null = null;
+const getMapboxToken = () => {
+  mapboxToken ||= supabase.functions.invoke<{ token: string }>('get-mapbox-token')
+    .then(({ data }) => data?.token || null);
+  return mapboxToken;
+};
+
+// Road distance from `origin` to each point, in miles; null where Mapbox found no route
+async function driveMiles(origin: { lat: number; lng: number }, points: { lat: number; lng: number }[]): Promise<(number | null)[]> {
+  const token = await getMapboxToken();
+  if (!token) return points.map(() => null);
+
+  const miles: (number | null)[] = [];
+  for (let i = 0; i < points.length; i += MATRIX_DESTINATIONS) {
+    const chunk = points.slice(i, i + MATRIX_DESTINATIONS);
+    const coordinates = [origin, ...chunk].map(({ lat, lng }) => `${lng},${lat}`).join(';');
+    try {
+      const response = await providerFetch('mapbox',
+        `https://api.mapbox.com/directions-matrix/v1/mapbox/driving/${coordinates}?sources=0&annotations=distance&access_token=${token}`
+      );
+      const data = await response.json();
+      const row: (number | null)[] = data.distances?.[0] || [];
+      chunk.forEach((_, j) => miles.push(row[j + 1] != null ? row[j + 1] / METERS_PER_MILE : null));
+    } catch (error) {
+      logger.error('Drive distance lookup failed', { error });
+      chunk.forEach(() => miles.push(null));
+    }
+  }
+  return miles;
+}
+
+// Listing id -> distance from the search origin, for every listing that can be placed. Empty when the origin
+// itself can't be geocoded.
+export async function listingDistances(
+  location: string,
+  listings: Listing[],
+  { drive = false }: { drive?: boolean } = {}
+): Promise<Record<string, ListingDistance>> {
+  const origin = await geocodeAddress(searchOriginQuery(location));
+  if (!origin) {
+    logger.warn('Search origin could not be geocoded', { location });
+    return {};
+  }
+
+  const locations = await geocodeListings(listings);
+  const ids = Object.keys(locations);
+  const distances: Record<string, ListingDistance> = {};
+  ids.forEach(id => {
+    distances[id] = {
+      miles: milesBetween(origin, locations[id]),
+      approximate: !isPreciseTo(locations[id].precision, 'street'),
+    };
+  });
+
+  if (drive && ids.length > 0) {
+    const byRoad = await driveMiles(origin, ids.map(id => locations[id]));
+    ids.forEach((id, i) => {
+      if (byRoad[i] != null) distances[id].driveMiles = byRoad[i];
+    });
+  }
+  return distances;
+}
+
+// "3.2 mi", "~5 mi" for approximate places, with the road distance when there is one
+export function formatDistance(distance: ListingDistance): string {
+  const round = (miles: number) => (miles < 10 ? miles.toFixed(1) : Math.round(miles).toString());
+  const straight = `${distance.approximate ? '~' : ''}${round(distance.miles)} mi`;
+  return distance.driveMiles != null ? `${round(distance.driveMiles)} mi drive (${straight} direct)` : `${straight} away`;
+}
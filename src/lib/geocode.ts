@@ -0,0 +1,84 @@
+import { supabase } from '@/integrations/supabase/client';
+import { createLogger } from '@/lib/logger';
+import { normalizeGeocodeAddress, type GeocodePrecision, type GeocodeResult } from '@shared/geocode';
+import { listingGeocodeQuery } from '@shared/listings/distance';
+import type { Listing } from '@shared/listings/types';
+
+// Browser side of geocoding: every component that needs coordinates for an address asks here. Lookups go to the
+// `geocode` edge function (provider choice and the geocode_cache table live there) and are remembered for the
+// rest of the page's life, so re-renders and repeated addresses cost nothing.
+
+export type { GeocodePrecision, GeocodeResult } from '@shared/geocode';
+
+const logger = createLogger('Geocode');
+
+// Matches MAX_ADDRESSES in the edge function
+const BATCH_SIZE = 100;
+
+// Normalized address -> lookup, including ones still in flight
+const lookups = new Map<string, Promise<GeocodeResult | null>>();
+
+// Batches go out one at a time; the edge function bounds how many provider calls each one makes at once
+let previousBatch: Promise<unknown> = Promise.resolve();
+
+async function requestBatch(addresses: string[]): Promise<(GeocodeResult | null)[]> {
+  const { data, error } = await supabase.functions.invoke<{ success: boolean; error?: string; results?: (GeocodeResult | null)[] }>(
+    'geocode', { body: { addresses } }
+  );
+  if (error || !data?.success) {
+    logger.error('Geocoding failed', { error: error || data?.error, count: addresses.length });
+    return addresses.map(() => null);
+  }
+  return data.results;
+}
+
+// Results line up with `addresses`; null where the address couldn't be placed
+export function geocodeAddresses(addresses: string[]): Promise<(GeocodeResult | null)[]> {
+  const keys = addresses.map(normalizeGeocodeAddress);
+  const missing = Array.from(new Set(keys.filter((key) => key && !lookups.has(key))));
+
+  for (let i = 0; i < missing.length; i += BATCH_SIZE) {
+    const batch = missing.slice(i, i + BATCH_SIZE);
+    const request = previousBatch.then(() => requestBatch(batch.map((key) => addresses[keys.indexOf(key)])));
+    previousBatch = request.catch(() => undefined);
+    batch.forEach((key, j) => {
+      const lookup = request.then((results) => results[j] || null);
+      lookups.set(key, lookup);
+      // Only places are remembered; an address that couldn't be placed is asked about again next time
+      lookup.then((result) => { if (!result) lookups.delete(key); });
+    });
+  }
+
+  return Promise.all(keys.map((key) => (key ? lookups.get(key) : null)));
+}
+
+export async function geocodeAddress(address: string): Promise<GeocodeResult | null> {
+  const [result] = await geocodeAddresses([address]);
+  return result;
+}
+
+export interface ListingLocation {
+  lat: number;
+  lng: number;
+  precision: GeocodePrecision;
+}
+
+// Listing id -> where to put it, for every listing that can be placed at all. Map pins a listing carries
+// (Craigslist postings) are used as they are; Craigslist shifts them slightly, so they count as street-level.
+export async function geocodeListings(listings: Listing[]): Promise<Record<string, ListingLocation>> {
+  const locations: Record<string, ListingLocation> = {};
+  const unpinned = listings.filter((listing) => {
+    if (listing.latitude != null && listing.longitude != null) {
+      locations[listing.id] = { lat: listing.latitude, lng: listing.longitude, precision: 'street' };
+      return false;
+    }
+    return !!listingGeocodeQuery(listing);
+  });
+
+  const results = await geocodeAddresses(unpinned.map(listingGeocodeQuery));
+  unpinned.forEach((listing, i) => {
+    const result = results[i];
+    if (result) locations[listing.id] = { lat: result.lat, lng: result.lng, precision: result.precision };
+  });
+  return locations;
+}
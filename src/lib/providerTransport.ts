@@ -0,0 +1,119 @@
+import { createLogger } from '@/lib/logger';
+
+// Browser half of the provider record/replay layer (the edge functions' half is supabase/functions/_shared/transport.ts).
+//   VITE_PROVIDER_TRANSPORT=live    call the provider (the default)
+//   VITE_PROVIDER_TRANSPORT=record  call the provider and keep each response in localStorage;
+//                                   `providerTransport.exportRecordings()` in the console downloads them as a fixture file
+//   VITE_PROVIDER_TRANSPORT=replay  answer from the fixture corpus (plus local recordings) only
+
+type TransportMode = 'live' | 'record' | 'replay';
+
+interface ProviderFixture {
+  provider: string;
+  key: string;
+  recordedAt: string;
+  response?: { status: number; contentType: string; body: string };
+  error?: { message: string; statusCode?: number };
+}
+
+const logger = createLogger('ProviderTransport');
+
+const RECORDINGS_STORAGE_KEY = 'providerRecordings';
+const SECRET_PARAMS = ['key', 'api_key', 'apikey', 'access_token', 'token'];
+
+const rawMode = String(import.meta.env.VITE_PROVIDER_TRANSPORT || 'live').toLowerCase();
+export const transportMode: TransportMode = rawMode === 'record' || rawMode === 'replay' ? rawMode : 'live';
+
+// The corpus is shared with the edge functions; files hold one fixture or (exported from here) a list of them.
+// Loaded lazily so live builds never download it.
+const fixtureFiles = import.meta.glob<ProviderFixture | ProviderFixture[]>(
+  '/supabase/functions/_fixtures/providers/**/*.json',
+  { import: 'default' }
+);
+
+const storedRecordings = (): ProviderFixture[] => {
+  try {
+    return JSON.parse(localStorage.getItem(RECORDINGS_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+let replayIndex: Promise<Record<string, ProviderFixture>> | null = null;
+
+const indexKey = (provider: string, key: string) => `${provider} ${key}`;
+
+const loadReplayIndex = () => {
+  replayIndex ??= Promise.all(Object.values(fixtureFiles).map(load => load())).then(files => {
+    const fixtures = [...files.flat(), ...storedRecordings()];
+    return Object.fromEntries(fixtures.map(fixture => [indexKey(fixture.provider, fixture.key), fixture]));
+  });
+  return replayIndex;
+};
+
+const redactUrl = (url: string) => {
+  try {
+    const parsed = new URL(url);
+    SECRET_PARAMS.forEach(param => parsed.searchParams.delete(param));
+    return parsed.href;
+  } catch {
+    return url;
+  }
+};
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Drop-in for fetch() against a provider's HTTP API (Mapbox geocoding, optimized trips, ...)
+export async function providerFetch(provider: string, url: string, init: RequestInit = {}): Promise<Response> {
+  const method = (init.method || 'GET').toUpperCase();
+  const body = typeof init.body === 'string' ? init.body : '';
+  const key = `${method} ${redactUrl(url)}${body ? ` #${(await sha256(body)).slice(0, 16)}` : ''}`;
+
+  if (transportMode === 'replay') {
+    const fixture = (await loadReplayIndex())[indexKey(provider, key)];
+    if (!fixture) {
+      logger.warn('No recorded response', { provider, key });
+      throw new Error(`No recorded ${provider} response for "${key}"`);
+    }
+    if (fixture.error) throw Object.assign(new Error(fixture.error.message), { statusCode: fixture.error.statusCode });
+    return new Response(fixture.response.body, { status: fixture.response.status, headers: { 'Content-Type': fixture.response.contentType } });
+  }
+
+  const response = await fetch(url, init);
+  if (transportMode === 'record') {
+    const fixture: ProviderFixture = {
+      provider,
+      key,
+      recordedAt: new Date().toISOString(),
+      response: { status: response.status, contentType: response.headers.get('Content-Type') || 'application/json', body: await response.clone().text() },
+    };
+    const recordings = storedRecordings().filter(existing => indexKey(existing.provider, existing.key) !== indexKey(provider, key));
+    try {
+      localStorage.setItem(RECORDINGS_STORAGE_KEY, JSON.stringify([...recordings, fixture]));
+    } catch (error) {
+      logger.warn('Could not store recording', { provider, key, error });
+    }
+  }
+  return response;
+}
+
+// Downloads everything recorded in this browser as one fixture file for supabase/functions/_fixtures/providers/
+export function exportRecordings(fileName = 'browser-recordings.json') {
+  const blob = new Blob([JSON.stringify(storedRecordings(), null, 2) + '\n'], { type: 'application/json' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
+
+export function clearRecordings() {
+  localStorage.removeItem(RECORDINGS_STORAGE_KEY);
+}
+
+if (typeof window !== "undefined" && transportMode !== 'live') {
+  (window as unknown as { providerTransport: unknown }).providerTransport = { exportRecordings, clearRecordings };
+}
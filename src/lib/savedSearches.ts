@@ -0,0 +1,129 @@
+import { supabase } from '@/integrations/supabase/client';
+import { defaultSearchState, searchPath, type SearchState } from '@/lib/searchUrl';
+import { savedSearchFromRow, savedSearchFilters, type SavedSearch } from '@shared/savedSearches';
+import { validateListing } from '@shared/listings/schema';
+import type { Listing } from '@shared/listings/types';
+
+// Browser side of saved searches. Reads go straight to the tables; writes go through the `saved-searches` edge
+// function, which owns them (the browser's key can only read).
+
+export interface SavedSearchSummary extends SavedSearch {
+  lastRunAt: string | null;
+  lastRunError: string | null;
+}
+
+export interface InboxMatch {
+  id: string;
+  savedSearchId: string;
+  sale: Listing;
+  foundAt: string;
+  read: boolean;
+}
+
+export interface InboxGroup {
+  search: SavedSearchSummary;
+  matches: InboxMatch[];
+  unread: number;
+}
+
+export interface SavedSearchRun {
+  matched: number;
+  newMatches: number;
+  error?: string;
+}
+
+// The most recent matches the inbox shows per load
+const INBOX_LIMIT = 500;
+
+async function invoke<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke<{ success: boolean; error?: string } & T>('saved-searches', { body });
+  if (error || !data?.success) throw new Error(data?.error || error?.message || 'Saved search request failed');
+  return data;
+}
+
+// Saves what the results page is showing; the first run happens right away and only sets the baseline
+export function saveSearch(name: string, state: Pick<SearchState, 'location' | 'radius' | 'sources' | 'saleTypes' | 'filters' | 'keywords'>) {
+  return invoke<{ id: string; run: SavedSearchRun }>({
+    action: 'create',
+    name,
+    location: state.location,
+    radius: state.radius,
+    sources: state.sources || [],
+    saleTypes: state.saleTypes,
+    filters: savedSearchFilters(state.filters),
+    keywords: state.keywords.trim(),
+  });
+}
+
+export const deleteSavedSearch = (id: string) => invoke({ action: 'delete', id });
+
+export const runSavedSearchNow = (id: string) => invoke<{ run: SavedSearchRun }>({ action: 'run', id });
+
+export const setMatchesRead = (read: boolean, target: { matchIds: string[] } | { savedSearchId: string }) =>
+  invoke({ action: read ? 'mark-read' : 'mark-unread', ...target });
+
+// Every saved search with its new matches, newest first; baseline matches (listed before the search was saved)
+// are never shown
+export async function loadInbox(): Promise<InboxGroup[]> {
+  const [searches, matches] = await Promise.all([
+    supabase
+      .from('saved_searches')
+      .select('id, name, location, radius, sources, sale_types, filters, keywords, last_run_at, last_run_error')
+      .order('created_at'),
+    supabase
+      .from('saved_search_matches')
+      .select('id, saved_search_id, listing, found_at, read_at')
+      .eq('baseline', false)
+      .order('found_at', { ascending: false })
+      .limit(INBOX_LIMIT),
+  ]);
+  if (searches.error) throw new Error(searches.error.message);
+  if (matches.error) throw new Error(matches.error.message);
+
+  const bySearch: Record<string, InboxMatch[]> = {};
+  matches.data.forEach(row => {
+    const { listing } = validateListing(row.listing);
+    if (!listing) return;
+    (bySearch[row.saved_search_id] ||= []).push({
+      id: row.id,
+      savedSearchId: row.saved_search_id,
+      sale: listing,
+      foundAt: row.found_at,
+      read: !!row.read_at,
+    });
+  });
+
+  return searches.data.map(row => {
+    const groupMatches = bySearch[row.id] || [];
+    return {
+      search: { ...savedSearchFromRow(row), lastRunAt: row.last_run_at, lastRunError: row.last_run_error },
+      matches: groupMatches,
+      unread: groupMatches.filter(match => !match.read).length,
+    };
+  });
+}
+
+export async function unreadMatchCount(): Promise<number> {
+  const { count, error } = await supabase
+    .from('saved_search_matches')
+    .select('id', { count: 'exact', head: true })
+    .eq('baseline', false)
+    .is('read_at', null);
+  if (error) throw new Error(error.message);
+  return count || 0;
+}
+
+// The results page for a saved search, run as it would be now
+export function savedSearchPath(search: SavedSearch): string {
+  const defaults = defaultSearchState();
+  return searchPath({
+    ...defaults,
+    location: search.location,
+    radius: search.radius,
+    sources: search.sources.length > 0 ? search.sources : null,
+    saleTypes: search.saleTypes,
+    filters: { ...defaults.filters, ...search.filters },
+    keywords: search.keywords,
+    sortBy: search.keywords ? 'relevance' : defaults.sortBy,
+  });
+}
@@ -0,0 +1,136 @@
+import { defaultResultFilters, type FeaturedLevel, type ResultFilters, type SaleStatus, type TimeOfDay } from '@shared/listings/filters';
+
+// A search as a query string, so a link (or a refresh) re-runs the same search and lands on the same view:
+//   /search?loc=MI/Troy/48084&radius=25&sources=estatesales-net,craigslist&q=pyrex&sort=distance&view=map
+// Anything left out of the string means the default, so links stay short.
+
+export type SortOrder = 'date' | 'distance' | 'relevance';
+export type ViewMode = 'list' | 'map';
+
+export interface SearchState {
+  // The search-sales location: an estatesales.net location URL
+  location: string;
+  radius: number;
+  // Enabled source ids; null leaves the registry's defaults
+  sources: string[] | null;
+  saleTypes: string[];
+  fetchDetails: boolean;
+  searchDeeper: boolean;
+  filters: ResultFilters;
+  keywords: string;
+  typeFilter: string;
+  groupByType: boolean;
+  sortBy: SortOrder;
+  viewMode: ViewMode;
+  driveDistances: boolean;
+}
+
+export const DEFAULT_RADIUS = 25;
+
+const ESTATESALES_LOCATION = /^https:\/\/www\.estatesales\.net\//;
+
+const list = (value: string | null) => (value ? value.split(',').filter(Boolean) : []);
+const oneOf = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+export function defaultSearchState(now = new Date()): SearchState {
+  return {
+    location: '',
+    radius: DEFAULT_RADIUS,
+    sources: null,
+    saleTypes: [],
+    fetchDetails: false,
+    searchDeeper: false,
+    filters: defaultResultFilters(now),
+    keywords: '',
+    typeFilter: 'all',
+    groupByType: false,
+    sortBy: 'date',
+    viewMode: 'list',
+    driveDistances: false,
+  };
+}
+
+export function encodeSearchState(state: SearchState, now = new Date()): URLSearchParams {
+  const defaults = defaultSearchState(now);
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | number | boolean, fallback: string | number | boolean) => {
+    if (value !== fallback) params.set(key, String(value === true ? 1 : value));
+  };
+  const setList = (key: string, values: (string | number)[]) => {
+    if (values.length > 0) params.set(key, values.join(','));
+  };
+
+  set('loc', state.location.replace(ESTATESALES_LOCATION, ''), '');
+  set('radius', state.radius, defaults.radius);
+  if (state.sources) params.set('sources', state.sources.join(','));
+  setList('types', state.saleTypes);
+  set('details', state.fetchDetails, false);
+  set('deep', state.searchDeeper, false);
+
+  const { filters } = state;
+  // ".." is any date, which a missing `dates` (the default window) can't express
+  if (filters.dateFrom !== defaults.filters.dateFrom || filters.dateTo !== defaults.filters.dateTo) {
+    params.set('dates', `${filters.dateFrom || ''}..${filters.dateTo || ''}`);
+  }
+  setList('days', filters.weekdays);
+  setList('times', filters.timesOfDay);
+  setList('from', filters.sources);
+  // Company names can hold commas, so each gets its own parameter
+  filters.companies.forEach(company => params.append('company', company));
+  setList('status', filters.statuses);
+  setList('featured', filters.featured);
+  set('pictures', filters.minPictures, 0);
+  set('street', filters.streetAddressOnly, false);
+
+  set('q', state.keywords.trim(), '');
+  set('type', state.typeFilter, 'all');
+  set('group', state.groupByType, false);
+  set('sort', state.sortBy, defaults.sortBy);
+  set('view', state.viewMode, defaults.viewMode);
+  set('drive', state.driveDistances, false);
+  return params;
+}
+
+export function decodeSearchState(params: URLSearchParams, now = new Date()): SearchState {
+  const defaults = defaultSearchState(now);
+  const flag = (key: string) => params.get(key) === '1';
+
+  const loc = params.get('loc') || '';
+  // State/City/zip paths are estatesales.net locations; anything else is kept as given
+  const location = /^[A-Z]{2}\//i.test(loc) ? `https://www.estatesales.net/${loc}` : loc;
+
+  const filters = { ...defaults.filters };
+  const dates = params.get('dates');
+  if (dates !== null) {
+    const [from, to] = dates.split('..');
+    filters.dateFrom = /^\d{4}-\d{2}-\d{2}$/.test(from || '') ? from : undefined;
+    filters.dateTo = /^\d{4}-\d{2}-\d{2}$/.test(to || '') ? to : undefined;
+  }
+  filters.weekdays = list(params.get('days')).map(Number).filter(day => Number.isInteger(day) && day >= 0 && day <= 6);
+  filters.timesOfDay = list(params.get('times')) as TimeOfDay[];
+  filters.sources = list(params.get('from'));
+  filters.companies = params.getAll('company').filter(Boolean);
+  filters.statuses = list(params.get('status')) as SaleStatus[];
+  filters.featured = list(params.get('featured')) as FeaturedLevel[];
+  filters.minPictures = parseInt(params.get('pictures') || '') || 0;
+  filters.streetAddressOnly = flag('street');
+
+  return {
+    location,
+    radius: parseInt(params.get('radius') || '') || defaults.radius,
+    sources: params.has('sources') ? list(params.get('sources')) : null,
+    saleTypes: list(params.get('types')),
+    fetchDetails: flag('details'),
+    searchDeeper: flag('deep'),
+    filters,
+    keywords: params.get('q') || '',
+    typeFilter: params.get('type') || 'all',
+    groupByType: flag('group'),
+    sortBy: oneOf(params.get('sort'), ['date', 'distance', 'relevance'] as const, defaults.sortBy),
+    viewMode: oneOf(params.get('view'), ['list', 'map'] as const, defaults.viewMode),
+    driveDistances: flag('drive'),
+  };
+}
+
+export const searchPath = (state: SearchState) => `/search?${encodeSearchState(state).toString()}`;
@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { ArrowLeft, CheckCheck, Loader2, Mail, MailOpen, RefreshCw, Search, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { EstateSaleCard } from "@/components/EstateSaleCard";
+import { createLogger } from "@/lib/logger";
+import {
+  deleteSavedSearch,
+  loadInbox,
+  runSavedSearchNow,
+  savedSearchPath,
+  setMatchesRead,
+  type InboxGroup,
+} from "@/lib/savedSearches";
+
+const logger = createLogger("Page/Inbox");
+
+type InboxState =
+  | { status: "loading" }
+  | { status: "failed" }
+  | { status: "loaded"; groups: InboxGroup[] };
+
+// Sales the saved searches found after they were saved, grouped by search, unread first within each
+const Inbox = () => {
+  const { toast } = useToast();
+  const [state, setState] = useState<InboxState>({ status: "loading" });
+  // Saved search an action is running for
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setState({ status: "loaded", groups: await loadInbox() });
+    } catch (error) {
+      logger.error("Inbox lookup failed", { error });
+      setState({ status: "failed" });
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Applies the read state here first so the list doesn't wait on the round trip
+  const markRead = (read: boolean, savedSearchId: string, matchIds?: string[]) => {
+    setState(prev => prev.status !== "loaded" ? prev : {
+      ...prev,
+      groups: prev.groups.map(group => {
+        if (group.search.id !== savedSearchId) return group;
+        const matches = group.matches.map(match => !matchIds || matchIds.includes(match.id) ? { ...match, read } : match);
+        return { ...group, matches, unread: matches.filter(match => !match.read).length };
+      }),
+    });
+    setMatchesRead(read, matchIds ? { matchIds } : { savedSearchId }).catch(error => {
+      logger.error("Updating read state failed", { error, savedSearchId });
+      toast({ title: "Couldn't update the inbox", description: error.message, variant: "destructive" });
+      reload();
+    });
+  };
+
+  const runNow = async (group: InboxGroup) => {
+    setBusyId(group.search.id);
+    try {
+      const { run } = await runSavedSearchNow(group.search.id);
+      toast({
+        title: `${group.search.name}: ${run.newMatches} new sale${run.newMatches === 1 ? "" : "s"}`,
+        description: run.error ? `Some sources failed: ${run.error}` : `${run.matched} sales match right now.`,
+        variant: run.error ? "destructive" : "default",
+      });
+      await reload();
+    } catch (error) {
+      logger.error("Saved search run failed", { error, id: group.search.id });
+      toast({ title: "Couldn't run the search", description: error instanceof Error ? error.message : undefined, variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const remove = async (group: InboxGroup) => {
+    if (!window.confirm(`Delete the saved search "${group.search.name}" and its matches?`)) return;
+    setBusyId(group.search.id);
+    try {
+      await deleteSavedSearch(group.search.id);
+      await reload();
+    } catch (error) {
+      logger.error("Deleting saved search failed", { error, id: group.search.id });
+      toast({ title: "Couldn't delete the search", description: error instanceof Error ? error.message : undefined, variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-[hsl(var(--accent)/0.4)] to-[hsl(var(--marble))]">
+      <div className="container mx-auto max-w-4xl px-4 py-8 sm:py-12 space-y-4">
+        <Link to="/" className="inline-flex items-center gap-1 text-sm text-primary hover:underline">
+          <ArrowLeft className="w-4 h-4" />
+          New search
+        </Link>
+        <h1 className="font-display text-2xl sm:text-3xl font-semibold text-foreground">Saved Searches</h1>
+
+        {state.status === "loading" && (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading inbox...
+          </div>
+        )}
+        {state.status === "failed" && <p className="text-muted-foreground">The inbox couldn't be loaded. Try again in a moment.</p>}
+        {state.status === "loaded" && state.groups.length === 0 && (
+          <p className="text-muted-foreground">
+            No saved searches yet. Run a search, then use "Save search" above the results to have it re-run on a schedule.
+          </p>
+        )}
+
+        {state.status === "loaded" && state.groups.map(group => {
+          const { search } = group;
+          const busy = busyId === search.id;
+          const matches = [...group.matches].sort((a, b) => Number(a.read) - Number(b.read));
+          return (
+            <section key={search.id} className="ornate-card p-4 sm:p-6 space-y-4">
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+                <div>
+                  <h2 className="font-semibold text-lg text-foreground flex items-center gap-2">
+                    {search.name}
+                    {group.unread > 0 && <Badge className="text-xs">{group.unread} new</Badge>}
+                  </h2>
+                  <p className="text-xs text-muted-foreground">
+                    {search.lastRunAt ? `Last run ${formatDistanceToNow(new Date(search.lastRunAt), { addSuffix: true })}` : "Not run yet"}
+                    {search.keywords && ` · "${search.keywords}"`}
+                  </p>
+                  {search.lastRunError && <p className="text-xs text-destructive">Last run had problems: {search.lastRunError}</p>}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button asChild variant="outline" size="sm" className="h-8 text-xs">
+                    <Link to={savedSearchPath(search)}>
+                      <Search className="w-3 h-3 mr-1" />
+                      Open search
+                    </Link>
+                  </Button>
+                  <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => runNow(group)} disabled={busy}>
+                    {busy ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <RefreshCw className="w-3 h-3 mr-1" />}
+                    Run now
+                  </Button>
+                  {group.unread > 0 && (
+                    <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => markRead(true, search.id)}>
+                      <CheckCheck className="w-3 h-3 mr-1" />
+                      Mark all read
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => remove(group)} disabled={busy} title="Delete this saved search">
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+
+              {matches.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No new sales since this search was saved.</p>
+              ) : (
+                <div className="grid gap-3 sm:gap-4 sm:grid-cols-2">
+                  {matches.map(match => (
+                    <div key={match.id} className={match.read ? "space-y-1 opacity-75" : "space-y-1"}>
+                      <EstateSaleCard sale={match.sale} isNew={!match.read} />
+                      <div className="flex items-center justify-between text-xs text-muted-foreground px-1">
+                        <span>Found {formatDistanceToNow(new Date(match.foundAt), { addSuffix: true })}</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => markRead(!match.read, search.id, [match.id])}
+                        >
+                          {match.read ? <Mail className="w-3 h-3 mr-1" /> : <MailOpen className="w-3 h-3 mr-1" />}
+                          {match.read ? "Mark unread" : "Mark read"}
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default Inbox;
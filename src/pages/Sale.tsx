@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { format, formatDistanceToNow } from "date-fns";
+import { ArrowLeft, History, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { EstateSaleCard } from "@/components/EstateSaleCard";
+import { createLogger } from "@/lib/logger";
+import { validateListing } from "@shared/listings/schema";
+import type { Listing } from "@shared/listings/types";
+
+const logger = createLogger("Page/Sale");
+
+// One tracked field that changed between two sightings, as the sales table's trigger logged it
+interface SaleRevision {
+  id: string;
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+  observed_at: string;
+}
+
+type SaleState =
+  | { status: "loading" }
+  | { status: "missing" }
+  | { status: "found"; sale: Listing; lastSeenAt: string; revisions: SaleRevision[] };
+
+const REVISION_FIELDS: Record<string, string> = {
+  address: "Address",
+  sale_dates: "Sale dates",
+  photo_count: "Photos",
+  last_modified: "Listing updated",
+};
+
+// One listing by id, from the sales table that every search writes to
+const Sale = () => {
+  const { id } = useParams<{ id: string }>();
+  const [state, setState] = useState<SaleState>({ status: "loading" });
+
+  useEffect(() => {
+    let cancelled = false;
+    setState({ status: "loading" });
+    Promise.all([
+      supabase.from("sales").select("payload, first_seen_at, last_seen_at").eq("id", id).maybeSingle(),
+      supabase
+        .from("sale_revisions")
+        .select("id, field, old_value, new_value, observed_at")
+        .eq("sale_id", id)
+        .order("observed_at", { ascending: false }),
+    ]).then(([{ data, error }, revisions]) => {
+      if (cancelled) return;
+      if (error) logger.error("Sale lookup failed", { id, error });
+      // The sale is still worth showing without its history
+      if (revisions.error) logger.error("Sale history lookup failed", { id, error: revisions.error });
+      const { listing } = data ? validateListing({ ...(data.payload as object), firstSeenAt: data.first_seen_at }) : { listing: undefined };
+      setState(listing
+        ? { status: "found", sale: listing, lastSeenAt: data.last_seen_at, revisions: revisions.data || [] }
+        : { status: "missing" });
+    }).catch(error => {
+      logger.error("Sale lookup failed", { id, error });
+      if (!cancelled) setState({ status: "missing" });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  useEffect(() => {
+    if (state.status === "found") document.title = `${state.sale.title} | Alyssa's Treasure Finder`;
+  }, [state]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-[hsl(var(--accent)/0.4)] to-[hsl(var(--marble))]">
+      <div className="container mx-auto max-w-2xl px-4 py-8 sm:py-12 space-y-4">
+        <Link to="/" className="inline-flex items-center gap-1 text-sm text-primary hover:underline">
+          <ArrowLeft className="w-4 h-4" />
+          New search
+        </Link>
+
+        {state.status === "loading" && (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading sale...
+          </div>
+        )}
+        {state.status === "missing" && (
+          <p className="text-muted-foreground">
+            This sale isn't in the saved results. It may have been listed before sales were saved, or the link is wrong.
+          </p>
+        )}
+        {state.status === "found" && (
+          <>
+            <EstateSaleCard sale={state.sale} />
+            <p className="text-xs text-muted-foreground">
+              {state.sale.firstSeenAt && `First seen ${formatDistanceToNow(new Date(state.sale.firstSeenAt), { addSuffix: true })}, `}
+              last seen {formatDistanceToNow(new Date(state.lastSeenAt), { addSuffix: true })}
+            </p>
+            {state.revisions.length > 0 && (
+              <div className="ornate-card p-4 space-y-2">
+                <h2 className="font-semibold text-foreground flex items-center gap-2">
+                  <History className="w-4 h-4 text-primary" />
+                  Changes since first seen
+                </h2>
+                <ul className="space-y-2 text-sm">
+                  {state.revisions.map(revision => (
+                    <li key={revision.id} className="text-muted-foreground">
+                      <span className="text-xs">{format(new Date(revision.observed_at), "MMM d, yyyy h:mm a")}</span>
+                      {" · "}
+                      <span className="font-medium text-foreground">{REVISION_FIELDS[revision.field] || revision.field}</span>
+                      {": "}
+                      <span className="line-through">{revision.old_value || "(none)"}</span>
+                      {" → "}
+                      <span className="text-foreground">{revision.new_value || "(none)"}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Sale;
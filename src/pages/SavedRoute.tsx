@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, Loader2, MapPin, Navigation } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { createLogger } from "@/lib/logger";
+import { validateListing } from "@shared/listings/schema";
+import type { Listing } from "@shared/listings/types";
+
+const logger = createLogger("Page/SavedRoute");
+
+interface RouteStop {
+  saleId: string | null;
+  address: string;
+}
+
+type RouteState =
+  | { status: "loading" }
+  | { status: "missing" }
+  | { status: "found"; startingAddress: string; stops: RouteStop[]; googleMapsUrl: string; sales: Record<string, Listing> };
+
+// A route optimize-route saved, with its stops in driving order and each stop's sale where it is still known
+const SavedRoute = () => {
+  const { id } = useParams<{ id: string }>();
+  const [state, setState] = useState<RouteState>({ status: "loading" });
+
+  useEffect(() => {
+    let cancelled = false;
+    setState({ status: "loading" });
+
+    const load = async () => {
+      const { data: route, error } = await supabase
+        .from("saved_routes")
+        .select("starting_address, stops, google_maps_url")
+        .eq("id", id)
+        .maybeSingle();
+      if (error) logger.error("Route lookup failed", { id, error });
+      if (!route) {
+        if (!cancelled) setState({ status: "missing" });
+        return;
+      }
+
+      const stops = route.stops as unknown as RouteStop[];
+      const saleIds = stops.map(stop => stop.saleId).filter(Boolean);
+      const sales: Record<string, Listing> = {};
+      if (saleIds.length > 0) {
+        const { data: rows, error: salesError } = await supabase.from("sales").select("id, payload").in("id", saleIds);
+        if (salesError) logger.error("Route sales lookup failed", { id, error: salesError });
+        (rows || []).forEach(row => {
+          const { listing } = validateListing(row.payload);
+          if (listing) sales[row.id] = listing;
+        });
+      }
+      if (!cancelled) {
+        setState({ status: "found", startingAddress: route.starting_address, stops, googleMapsUrl: route.google_maps_url, sales });
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-[hsl(var(--accent)/0.4)] to-[hsl(var(--marble))]">
+      <div className="container mx-auto max-w-2xl px-4 py-8 sm:py-12 space-y-4">
+        <Link to="/" className="inline-flex items-center gap-1 text-sm text-primary hover:underline">
+          <ArrowLeft className="w-4 h-4" />
+          New search
+        </Link>
+
+        {state.status === "loading" && (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading route...
+          </div>
+        )}
+        {state.status === "missing" && <p className="text-muted-foreground">No saved route has this link.</p>}
+        {state.status === "found" && (
+          <div className="ornate-card p-4 sm:p-6 space-y-4">
+            <h1 className="font-display text-2xl font-semibold text-foreground">Planned Route</h1>
+            <div className="flex items-start gap-3 p-3 rounded-lg border bg-card/50">
+              <Navigation className="w-4 h-4 mt-0.5 text-green-600 flex-shrink-0" />
+              <div>
+                <span className="font-medium text-green-600">Starting Point</span>
+                <p className="text-sm text-muted-foreground break-words">{state.startingAddress}</p>
+              </div>
+            </div>
+            {state.stops.map((stop, index) => {
+              const sale = stop.saleId ? state.sales[stop.saleId] : undefined;
+              return (
+                <div key={index} className="flex items-start gap-3 p-3 rounded-lg border bg-card/50">
+                  <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary text-primary-foreground flex items-center justify-center text-sm font-medium">
+                    {index + 1}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <MapPin className="w-4 h-4 text-primary" />
+                      {sale ? (
+                        <Link to={`/sale/${stop.saleId}`} className="font-medium text-foreground hover:underline">
+                          {sale.title}
+                        </Link>
+                      ) : (
+                        <span className="font-medium text-foreground">Estate Sale</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground break-words">{stop.address}</p>
+                    {sale?.date && <p className="text-xs text-muted-foreground mt-1">📅 {sale.date}</p>}
+                  </div>
+                </div>
+              );
+            })}
+            <Button
+              onClick={() => window.open(state.googleMapsUrl, '_blank')}
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              <Navigation className="w-4 h-4 mr-2" />
+              Get Directions in Google Maps
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SavedRoute;
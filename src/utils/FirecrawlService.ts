@@ -1,44 +1,102 @@
 import { supabase } from '@/integrations/supabase/client';
 import { createLogger } from '@/lib/logger';
+import { ESTATESALES_SOURCE_ID } from '@shared/listings/estatesales';
+import { CRAIGSLIST_SOURCE_ID } from '@shared/listings/craigslist';
+import type { Listing } from '@shared/listings/types';
+import type { FailureKind } from '@shared/scrapePolicy';
+
+// One scraped results page and what the parser made of it
+export interface SearchSalesPageReport {
+  url: string;
+  ok: boolean;
+  error?: string;
+  failure?: FailureKind;
+  // Scraping backend that served the page: firecrawl, direct or saved-pages
+  backend?: string;
+  cached: boolean;
+  markdownLength: number;
+  blocksFound: number;
+  // Skip reason -> count
+  blocksSkipped: Record<string, number>;
+  listingsProduced: number;
+  parserDrift: boolean;
+}
+
+export interface SearchSalesSourceReport {
+  sourceId: string;
+  ok: boolean;
+  error?: string;
+  failure?: FailureKind;
+  urls: string[];
+  pagesScraped: number;
+  // Pages the crawl meant to walk, and why it stopped (last-page, no-new-listings, page-limit, budget, fetch-failed)
+  pagesPlanned: number;
+  stopReason?: string;
+  detailPagesScraped: number;
+  cachedPages: number;
+  fetchedAt?: string;
+  listingCount: number;
+  pages: SearchSalesPageReport[];
+  // Markdown came back but nothing could be parsed; the site layout has probably changed
+  parserDrift: boolean;
+}
 
-interface ErrorResponse {
-  success: false;
-  error: string;
+export interface SearchSalesResponse {
+  success: boolean;
+  error?: string;
+  listings?: Listing[];
+  sources?: SearchSalesSourceReport[];
+  creditsUsed?: number;
+  // Oldest fetch time behind the listings; older than "now" when pages came from the scrape cache
+  fetchedAt?: string;
 }
 
-interface ScrapeResponse {
-  success: true;
-  data: any;
+export interface SearchSalesOptions {
+  enrichDetails?: boolean;
+  // Result pages per source; the edge function picks a radius-based default when omitted
+  maxPages?: number;
+  // Bypass the server-side scrape cache
+  forceRefresh?: boolean;
+  saleTypes?: string[];
+  // With either callback set the search is streamed: progress counts pages fetched out of pages planned,
+  // and listings arrive per results page (and again, updated, when their own page has been read)
+  onProgress?: (pagesDone: number, pagesPlanned: number) => void;
+  onListings?: (listings: Listing[]) => void;
 }
 
-type FirecrawlResponse = ScrapeResponse | ErrorResponse;
+// Server-sent events from search-sales when called with `stream: true`
+export type SearchSalesEvent =
+  | { type: 'progress'; sourceId: string; pagesDone: number; pagesPlanned: number }
+  | { type: 'listings'; sourceId: string; listings: Listing[]; page?: SearchSalesPageReport }
+  | { type: 'source'; report: SearchSalesSourceReport }
+  | { type: 'done'; creditsUsed: number; fetchedAt?: string }
+  | { type: 'error'; error: string };
+
+// What a failed source means for the user, by why its pages failed
+const FAILURE_MESSAGES: Record<FailureKind, (site: string) => string> = {
+  'blocked': (site) => `${site} is currently blocking automated scraping. Please try again later or visit the website directly.`,
+  'timeout': (site) => `${site} took too long to respond. Please try again in a moment.`,
+  'rate-limited': (site) => `${site} is limiting how often we can search. Please wait a few minutes and try again.`,
+  'not-found': (site) => `${site} has no results page for this location.`,
+  'provider-quota': () => 'The scraping service has run out of credits for now. Please try again later.',
+  'robots-disallowed': (site) => `${site} does not allow automated access to this page.`,
+  'unknown': (site) => `Failed to scrape ${site}.`,
+};
+
+const failureMessage = (report: SearchSalesSourceReport, site: string) =>
+  report.failure ? FAILURE_MESSAGES[report.failure](site) : report.error || `Failed to scrape ${site}.`;
+
+type SearchSalesResult = { success: boolean; error?: string; data?: Listing[]; fetchedAt?: string; report?: SearchSalesSourceReport };
 
 export class FirecrawlService {
   private static logger = createLogger('FirecrawlService');
-  static async crawlWebsite(url: string): Promise<{ success: boolean; error?: string; data?: any }> {
+  static async crawlWebsite(url: string, radius = 25, options: SearchSalesOptions = {}): Promise<SearchSalesResult> {
     try {
-      this.logger.info('Making optimized scrape request via Supabase edge function', { url });
-      
-      // Generate multiple URL variants for better coverage and parallel processing
-      const urlVariants = this.generateUrlVariants(url);
-      this.logger.info('Generated URL variants', { variants: urlVariants });
-      
-      // Use batch scraping for better performance
-      const { data, error } = await supabase.functions.invoke('firecrawl-scrape-batch', {
-        body: { urls: urlVariants }
-      });
+      this.logger.info('Searching estatesales.net via search-sales edge function', { url, radius });
+      const { data, error } = await this.searchSales(url, radius, ESTATESALES_SOURCE_ID, options);
 
       if (error) {
         this.logger.error('Edge function error', { error });
-        
-        // Check if it's a 500 error from the scraping service
-        if (error.message?.includes('500') || error.message?.includes('scraping engines failed')) {
-          return { 
-            success: false, 
-            error: 'The estate sales website is currently blocking automated scraping. Please try again later or visit the website directly.' 
-          };
-        }
-        
         return { 
           success: false, 
           error: error.message || 'Failed to call scraping service' 
@@ -46,317 +104,89 @@ export class FirecrawlService {
       }
 
       if (!data.success) {
-        this.logger.error('Batch scrape failed', { error: data.error });
+        this.logger.error('Search failed', { error: data.error });
         return { 
           success: false, 
           error: data.error || 'Failed to scrape website' 
         };
       }
 
-      this.logger.info('Batch scrape successful', { successCount: data.successCount, total: data.totalProcessed });
-      
-      // Combine markdown from all successful results
-      let combinedMarkdown = '';
-      const successfulResults = data.results.filter((result: any) => result.success);
-      
-      this.logger.info('Processing successful results', { count: successfulResults.length });
-      this.logger.debug?.('Full data response', { data });
-      
-      for (const result of successfulResults) {
-        this.logger.debug?.('Individual result structure', { result });
-        
-        // Try different possible markdown locations
-        let markdown = '';
-        if (result.data?.markdown) {
-          markdown = result.data.markdown;
-        } else if (result.data?.content) {
-          markdown = result.data.content;
-        } else if (typeof result.data === 'string') {
-          markdown = result.data;
-        } else if (result.markdown) {
-          markdown = result.markdown;
-        }
-        
-        if (markdown) {
-          this.logger.info('Adding markdown', { url: result.url, length: markdown.length });
-          combinedMarkdown += markdown + '\n\n';
-        } else {
-          this.logger.warn?.('No markdown found', { url: result.url, keys: Object.keys(result.data || {}) });
-        }
+      const report = data.sources?.find(source => source.sourceId === ESTATESALES_SOURCE_ID);
+      if (report && !report.ok) {
+        return { success: false, error: failureMessage(report, 'estatesales.net'), report };
       }
-      
-      this.logger.info('Final combined markdown length', { length: combinedMarkdown.length });
-      
-      // Parse estate sales from the combined markdown content
-      const parsedSales = this.parseEstateSales(combinedMarkdown);
-      
-      // Convert scrape response to match expected crawl format
-      const formattedData = {
-        success: true,
-        status: 'completed',
-        completed: parsedSales.length,
-        total: parsedSales.length,
-        creditsUsed: 1,
-        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
-        data: parsedSales
-      };
-      
-      return { 
-        success: true,
-        data: formattedData
-      };
+
+      this.logger.info('Search successful', { listings: data.listings?.length, sources: data.sources, creditsUsed: data.creditsUsed });
+      return { success: true, data: data.listings || [], fetchedAt: data.fetchedAt, report };
     } catch (error) {
       console.error('Error during scrape:', error);
       
-      // Provide more helpful error messages
-      const errorMessage = error instanceof Error ? error.message : 'Failed to connect to scraping service';
-      
-      if (errorMessage.includes('500') || errorMessage.includes('scraping engines failed')) {
-        return { 
-          success: false, 
-          error: 'The estate sales website is currently blocking automated access. Please try again later or visit the website directly.' 
-        };
-      }
-      
       return { 
         success: false, 
-        error: errorMessage
+        error: error instanceof Error ? error.message : 'Failed to connect to scraping service'
       };
     }
   }
 
-  // Generate multiple URL variants for better coverage and parallel scraping
-  static generateUrlVariants(baseUrl: string): string[] {
-    const variants = [baseUrl];
-    
-    // Add pagination variants (first few pages for more results)
-    for (let page = 2; page <= 3; page++) {
-      const separator = baseUrl.includes('?') ? '&' : '?';
-      variants.push(`${baseUrl}${separator}page=${page}`);
+  // Scraping and parsing both run server-side; the browser only receives listing JSON
+  private static searchSales(location: string, radius: number, sourceId: string, options: SearchSalesOptions = {}): Promise<{ data: SearchSalesResponse | null; error: Error | null }> {
+    const body = { location, radius, sources: [sourceId], enrichDetails: !!options.enrichDetails, maxPages: options.maxPages, forceRefresh: !!options.forceRefresh, saleTypes: options.saleTypes };
+    if (options.onProgress || options.onListings) {
+      return this.streamSearchSales(body, options);
     }
-    
-    return variants; // Return only base URL and pagination variants
+    return supabase.functions.invoke<SearchSalesResponse>('search-sales', { body });
   }
 
-  static parseEstateSales(markdown: string): any[] {
-    this.logger.info('Parsing markdown', { length: markdown.length });
-    const sales: any[] = [];
-    
-    // Split by image patterns - each estate sale starts with [![
-    const saleBlocks = markdown.split(/(?=\[!\[)/);
-    
-    this.logger.info('Potential sale blocks found', { count: saleBlocks.length });
-    
-    for (let i = 1; i < saleBlocks.length; i++) { // Skip first block (header content)
-      const block = saleBlocks[i];
-      
-      // Skip if this doesn't contain estatesales.net URL (not a real sale)
-      if (!block.includes('estatesales.net') || !block.includes('**')) {
-        continue;
-      }
-      
-      // Skip aggregated search results or nearby listings
-      if (block.includes('Nearby [') || 
-          block.includes('Address not available yet') ||
-          block.includes('Companies have paid extra') ||
-          block.includes('#### Statistics About') ||
-          block.includes('Featured Sales Please note') ||
-          (block.match(/\[.*?\]\(https:\/\/www\.estatesales\.net/g) || []).length > 5) {
-        console.log('Skipping aggregated search result or nearby listing');
-        continue;
+  // Reads the event stream as it arrives and folds it into the same response a one-shot search returns
+  private static async streamSearchSales(body: Record<string, unknown>, options: SearchSalesOptions): Promise<{ data: SearchSalesResponse | null; error: Error | null }> {
+    // supabase-js hands text/event-stream responses back unread
+    const { data: response, error } = await supabase.functions.invoke<Response>('search-sales', { body: { ...body, stream: true } });
+    if (error) return { data: null, error };
+
+    const result: SearchSalesResponse = { success: true, sources: [] };
+    const byId = new Map<string, Listing>();
+
+    const handle = (event: SearchSalesEvent) => {
+      switch (event.type) {
+        case 'progress':
+          options.onProgress?.(event.pagesDone, event.pagesPlanned);
+          break;
+        case 'listings':
+          // A listing seen again has been enriched from its own page; it keeps its place in the results
+          event.listings.forEach(listing => byId.set(listing.id, listing));
+          options.onListings?.(event.listings);
+          break;
+        case 'source':
+          result.sources.push(event.report);
+          break;
+        case 'done':
+          result.creditsUsed = event.creditsUsed;
+          result.fetchedAt = event.fetchedAt;
+          break;
+        case 'error':
+          result.success = false;
+          result.error = event.error;
+          break;
       }
-      
-      const sale: any = {};
-      
-      // Extract image URL - look for image pattern at the beginning
-      const imageMatch = block.match(/\[!\[.*?\]\((https:\/\/[^)]+\.(?:jpg|jpeg|png|gif|webp))/i);
-      if (imageMatch) {
-        sale.imageUrl = imageMatch[1];
-      }
-      
-      // Extract title - look for **title** pattern
-      const titleMatch = block.match(/\*\*(.*?)\*\*/);
-      if (titleMatch) {
-        sale.title = titleMatch[1].trim().replace(/\\\\/g, '');
-      }
-      
-      // Extract company - look for "Listed by" pattern
-      const companyMatch = block.match(/Listed by ([^\\]+)/);
-      if (companyMatch) {
-        sale.company = companyMatch[1].trim();
-      } else if (block.includes('Privately Listed Sale')) {
-        sale.company = 'Privately Listed Sale';
-      }
-      
-      // Extract picture count and last modified
-      const pictureMatch = block.match(/(\d+)\s+Pictures/);
-      if (pictureMatch) {
-        sale.pictureCount = pictureMatch[1];
-      }
-      
-      const modifiedMatch = block.match(/Last modified ([^.]+)/);
-      if (modifiedMatch) {
-        sale.lastModified = modifiedMatch[1].trim();
-      }
-      
-        // Enhanced address extraction with better street address parsing
-        console.log('Processing block for address extraction:', block.substring(0, 200));
-        
-        // Extract distance FIRST to avoid confusion with address
-        const distanceMatch = block.match(/(\d+\s+miles?\s+away|Less than \d+ miles away|Nearby[^\\]*)/);
-        if (distanceMatch) {
-          sale.distance = distanceMatch[1].trim();
-          console.log('Found distance:', sale.distance);
-        }
-        
-        // Now extract street address from the block content (excluding distance)
-        const lines = block.split(/[\\\\|\n|\r]/);
-        let streetAddress = '';
-        
-        for (const line of lines) {
-          const cleanLine = line.trim().replace(/\\\\/g, ' ').replace(/\s+/g, ' ');
-          if (!cleanLine || cleanLine.length < 5) continue;
-          
-          // Skip lines that contain distance information
-          if (cleanLine.includes('miles away') || cleanLine.includes('Nearby')) continue;
-          
-          // Look for street address patterns
-          const streetPattern = /^\d+\s+[A-Za-z\s]+(dr|drive|st|street|ave|avenue|rd|road|ln|lane|way|circle|ct|court|pkwy|parkway|blvd|boulevard|place|pl)\b/i;
-          if (streetPattern.test(cleanLine) && !streetAddress) {
-            streetAddress = cleanLine;
-            console.log('Found street address:', streetAddress);
-            break;
-          }
-        }
-        
-        // Look for the actual estate sale URL which contains the address structure
-        const urlMatch = block.match(/\]\((https:\/\/www\.estatesales\.net\/([A-Z]{2})\/([^\/]+)\/(\d{5})?[^)]*)\)/);
-        
-        if (urlMatch) {
-          const [, fullUrl, state, cityFromUrl, zipCode] = urlMatch;
-          
-          // Convert URL city name back to readable format
-          const city = cityFromUrl.replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
-          
-          console.log('Extracted from URL:', { state, city, zipCode, fullUrl });
-          
-          sale.state = state;
-          sale.city = city;
-          sale.zipCode = zipCode || '';
-          sale.streetAddress = streetAddress;
-          
-          // Construct full address with street address if available
-          if (streetAddress) {
-            sale.address = `${streetAddress}, ${city}, ${state}${zipCode ? ' ' + zipCode : ''}`;
-          } else {
-            sale.address = `${city}, ${state}${zipCode ? ' ' + zipCode : ''}`;
-          }
-          
-          sale.url = fullUrl;
-        } else {
-          // Fallback: try to find address info in the text
-          for (const line of lines) {
-            const cleanLine = line.trim();
-            if (!cleanLine || cleanLine.length < 3) continue;
-            
-            // Skip lines that contain distance information
-            if (cleanLine.includes('miles away') || cleanLine.includes('Nearby')) continue;
-            
-            // Look for city, state pattern in text
-            const cityStatePattern = /^([A-Za-z\s]+),?\s*([A-Z]{2})\s*(\d{5})?$/;
-            const cityMatch = cleanLine.match(cityStatePattern);
-            if (cityMatch && !sale.city) {
-              sale.city = cityMatch[1].trim();
-              sale.state = cityMatch[2];
-              sale.zipCode = cityMatch[3] || '';
-              sale.streetAddress = streetAddress;
-              
-              if (streetAddress) {
-                sale.address = `${streetAddress}, ${sale.city}, ${sale.state}${sale.zipCode ? ' ' + sale.zipCode : ''}`;
-              } else {
-                sale.address = `${sale.city}, ${sale.state}${sale.zipCode ? ' ' + sale.zipCode : ''}`;
-              }
-              
-              console.log('Found city/state in text:', sale.city, sale.state, sale.zipCode);
-              break;
-            }
-          }
-        }
-      
-      console.log('Final address extraction result:', {
-        fullAddress: sale.address,
-        streetAddress: sale.streetAddress,
-        city: sale.city,
-        state: sale.state,
-        zipCode: sale.zipCode,
-        distance: sale.distance
-      });
-      
-      // Extract dates - look for month patterns
-      const dateMatch = block.match(/((?:Jul|Aug|Sep|Oct|Nov|Dec|Jan|Feb|Mar|Apr|May|Jun)\s+\d+(?:,\s+\d+)?(?:,\s*(?:Jul|Aug|Sep|Oct|Nov|Dec|Jan|Feb|Mar|Apr|May|Jun)\s+\d+)*)/);
-      if (dateMatch) {
-        sale.date = dateMatch[1].trim();
-      }
-      
-      // Extract times
-      const timeMatch = block.match(/(\d+(?:am|pm)\s+to\s+\d+(?:am|pm))/);
-      if (timeMatch) {
-        sale.time = timeMatch[1].trim();
-      }
-      
-      // Extract status
-      const statusMatch = block.match(/(Going on Now!|Starts Tomorrow!|Ends Today!|Resuming Today|Starts at)/);
-      if (statusMatch) {
-        sale.status = statusMatch[1].trim();
-      }
-      
-      // Set URL if not already set from address extraction
-      if (!sale.url) {
-        const fallbackUrlMatch = block.match(/\]\((https:\/\/www\.estatesales\.net\/[^)]+)\)/);
-        if (fallbackUrlMatch) {
-          sale.url = fallbackUrlMatch[1];
-        }
-      }
-      
-      // Extract featured status
-      if (block.includes('Regionally Featured')) {
-        sale.featured = 'Regional';
-      } else if (block.includes('Nationally Featured')) {
-        sale.featured = 'National';
-      }
-      
-      // Store markdown for this sale
-      sale.markdown = block;
-      
-      // Build a description from available info
-      const descParts = [];
-      if (sale.company) descParts.push(`Listed by ${sale.company}`);
-      if (sale.lastModified) descParts.push(`Last modified ${sale.lastModified}`);
-      if (sale.pictureCount) descParts.push(`${sale.pictureCount} pictures`);
-      if (sale.time) descParts.push(`${sale.time}`);
-      if (sale.status) descParts.push(sale.status);
-      sale.description = descParts.join(' • ');
-      
-      // Only add sales that have at least a title and are today or in the future
-      if (sale.title && sale.title.length > 0) {
-        // Check if sale is today or in the future
-        const isTodayOrFuture = this.isTodayOrLater(sale.date);
-        console.log(`Sale "${sale.title}" date: "${sale.date}" - today or future: ${isTodayOrFuture}`);
-        
-        if (isTodayOrFuture) {
-          sales.push(sale);
-          console.log(`✅ Added sale: "${sale.title}" at ${sale.address || sale.streetAddress || 'No address found'}`);
-        } else {
-          console.log(`❌ Filtered out sale: "${sale.title}" - past date`);
-        }
-      } else {
-        console.log(`❌ Skipped sale block - no title found`);
+    };
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const messages = buffer.split('\n\n');
+      buffer = messages.pop() || '';
+      for (const message of messages) {
+        const line = message.split('\n').find(l => l.startsWith('data: '));
+        if (line) handle(JSON.parse(line.slice(6)) as SearchSalesEvent);
       }
     }
-    
-    console.log(`Successfully parsed ${sales.length} estate sales`);
-    
-    return sales;
+
+    result.listings = [...byId.values()];
+    return { data: result, error: null };
   }
 
   static async searchThriftStores(locationUrl: string, radiusFilter: number): Promise<{ success: boolean; error?: string; data?: any }> {
@@ -416,7 +246,6 @@ export class FirecrawlService {
         phone: place.formatted_phone_number || '',
         rating: place.rating || 0,
         distance: place.distance ? `${place.distance.toFixed(1)} miles away` : '',
-        uniqueId: `thrift-${place.place_id}`,
         imageUrl: place.photos?.[0]?.getUrl?.() || ''
       }));
 
@@ -435,199 +264,26 @@ export class FirecrawlService {
     }
   }
 
-  // Helper method to check if a sale date is within 3 days from today
-  static isWithinThreeDays(dateString: string): boolean {
-    if (!dateString || dateString === 'Date TBD') {
-      return true; // Include sales without specific dates
-    }
-
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    const threeDaysFromNow = new Date(today);
-    threeDaysFromNow.setDate(today.getDate() + 3);
-
-    try {
-      // Parse estate sale dates that can be in various formats like:
-      // "Dec 14, 2024"
-      // "Dec 14, Dec 15"
-      // "Dec 14"
-      
-      const currentYear = today.getFullYear();
-      const dateToCheck = this.parseSaleDate(dateString, currentYear);
-      
-      if (!dateToCheck) {
-        return true; // If we can't parse it, include it
-      }
-
-      return dateToCheck >= today && dateToCheck <= threeDaysFromNow;
-    } catch (error) {
-      console.warn('Error parsing date:', dateString, error);
-      return true; // If error parsing, include the sale
-    }
-  }
-
-  // Helper method to check if a sale date is today or later (keeping for compatibility)
-  static isTodayOrLater(dateString: string): boolean {
-    if (!dateString || dateString === 'Date TBD') {
-      return true; // Include sales without specific dates
-    }
-
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    try {
-      // Parse estate sale dates that can be in various formats like:
-      // "Dec 14, 2024"
-      // "Dec 14, Dec 15"
-      // "Dec 14"
-      
-      const currentYear = today.getFullYear();
-      const dateToCheck = this.parseSaleDate(dateString, currentYear);
-      
-      if (!dateToCheck) {
-        return true; // If we can't parse it, include it
-      }
-
-      return dateToCheck >= today;
-    } catch (error) {
-      console.warn('Error parsing date:', dateString, error);
-      return true; // If error parsing, include the sale
-    }
-  }
-
-  // Helper method to check if a sale date is within 7 days from today
-  static isWithinSevenDays(dateString: string): boolean {
-    if (!dateString || dateString === 'Date TBD') {
-      return true; // Include sales without specific dates
-    }
-
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    const sevenDaysFromNow = new Date(today);
-    sevenDaysFromNow.setDate(today.getDate() + 7);
-
-    try {
-      const currentYear = today.getFullYear();
-      const dateToCheck = this.parseSaleDate(dateString, currentYear);
-      
-      if (!dateToCheck) {
-        return true; // If we can't parse it, include it
-      }
-
-      return dateToCheck >= today && dateToCheck <= sevenDaysFromNow;
-    } catch (error) {
-      console.warn('Error parsing date:', dateString, error);
-      return true; // If error parsing, include the sale
-    }
-  }
-
-  // Helper method to parse estate sale date strings
-  static parseSaleDate(dateString: string, currentYear: number): Date | null {
-    try {
-      // Clean the date string
-      const cleanDate = dateString.trim();
-      
-      // Handle formats like "Dec 14, 2024" or "Dec 14"
-      const dateWithYearMatch = cleanDate.match(/^(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+(\d{1,2})(?:,\s*(\d{4}))?/i);
-      
-      if (dateWithYearMatch) {
-        const [, month, day, year] = dateWithYearMatch;
-        const monthMap: { [key: string]: number } = {
-          'jan': 0, 'feb': 1, 'mar': 2, 'apr': 3, 'may': 4, 'jun': 5,
-          'jul': 6, 'aug': 7, 'sep': 8, 'oct': 9, 'nov': 10, 'dec': 11
-        };
-        
-        const monthIndex = monthMap[month.toLowerCase()];
-        const dayNum = parseInt(day);
-        const yearNum = year ? parseInt(year) : currentYear;
-        
-        if (monthIndex !== undefined && dayNum >= 1 && dayNum <= 31) {
-          return new Date(yearNum, monthIndex, dayNum);
-        }
-      }
-      
-      return null;
-    } catch (error) {
-      console.warn('Error parsing sale date:', dateString, error);
-      return null;
-    }
-  }
-
-  static async searchCraigslist(locationUrl: string, radiusFilter: number): Promise<{ success: boolean; error?: string; data?: any }> {
+  static async searchCraigslist(locationUrl: string, radiusFilter: number, options: SearchSalesOptions = {}): Promise<SearchSalesResult> {
     try {
       this.logger.info('Searching Craigslist', { locationUrl, radiusFilter });
 
-      // Extract city/state/zip from estatesales.net URL or use raw location
-      let zipcode = '';
-      if (locationUrl.includes('estatesales.net')) {
-        const zipMatch = locationUrl.match(/\/(\d{5})(?:\D|$)/);
-        if (zipMatch) zipcode = zipMatch[1];
-      } else {
-        const zipMatch = locationUrl.match(/\b(\d{5})\b/);
-        if (zipMatch) zipcode = zipMatch[1];
-      }
-
-      if (!zipcode) {
-        return { success: false, error: 'Unable to determine zipcode for Craigslist search' };
-      }
-
-      const radius = radiusFilter === 999 ? 25 : radiusFilter;
-      const base = `https://www.craigslist.org/search/gms?postal=${zipcode}&search_distance=${radius}&query=estate%20sale&hasPic=1&bundleDuplicates=1`;
-      const urls = [base, `${base}&s=120`];
-
-      const { data, error } = await supabase.functions.invoke('firecrawl-scrape-batch', {
-        body: { urls }
-      });
+      const { data, error } = await this.searchSales(locationUrl, radiusFilter, CRAIGSLIST_SOURCE_ID, options);
 
       if (error || !data?.success) {
-        this.logger.error('Craigslist scrape error', { error: error || data?.error });
-        return { success: false, error: (error as any)?.message || (data as any)?.error || 'Failed to scrape Craigslist' };
+        this.logger.error('Craigslist search error', { error: error || data?.error });
+        return { success: false, error: error?.message || data?.error || 'Failed to scrape Craigslist' };
       }
 
-      // Combine markdown from result pages
-      let combined = '';
-      for (const r of (data as any).results.filter((r: any) => r.success)) {
-        const md = r.data?.markdown || r.data?.content || '';
-        combined += md + '\n';
+      const report = data.sources?.find(source => source.sourceId === CRAIGSLIST_SOURCE_ID);
+      if (report && !report.ok) {
+        return { success: false, error: failureMessage(report, 'Craigslist'), report };
       }
 
-      const listings = this.parseCraigslistListings(combined).map(l => ({
-        ...l,
-        type: 'estate_sale',
-        company: 'Craigslist',
-      }));
-
-      return { success: true, data: listings };
+      return { success: true, data: data.listings || [], fetchedAt: data.fetchedAt, report };
     } catch (err) {
       this.logger.error('Error searching Craigslist', { err });
       return { success: false, error: err instanceof Error ? err.message : 'Craigslist search failed' };
     }
   }
-
-  static parseCraigslistListings(markdown: string): any[] {
-    const items: any[] = [];
-    const linkRegex = /\[([^\]]+)\]\((https?:\/\/[a-z0-9.-]*craigslist\.org\/[^)]+?\.html)\)/gi;
-    const seenUrls = new Set<string>();
-    let match: RegExpExecArray | null;
-    while ((match = linkRegex.exec(markdown)) !== null) {
-      const title = match[1].trim();
-      const url = match[2];
-      if (seenUrls.has(url)) continue;
-      seenUrls.add(url);
-      // Try to capture neighborhood/location if present on same line
-      const after = markdown.slice(match.index, match.index + 200);
-      const hoodMatch = after.match(/\(([^)]+)\)\s*\n/);
-      const neighborhood = hoodMatch ? hoodMatch[1] : '';
-      items.push({
-        title,
-        url,
-        address: '',
-        description: neighborhood || 'Craigslist listing',
-        sourceURL: url,
-      });
-    }
-    return items;
-  }
 }
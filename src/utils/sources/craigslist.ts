@@ -0,0 +1,24 @@
+import { FirecrawlService } from '@/utils/FirecrawlService';
+import { CRAIGSLIST_SOURCE_ID } from '@shared/listings/craigslist';
+import { collectSourceResult } from './diagnostics';
+import type { ListingSource, Listing } from './types';
+
+export const craigslistSource: ListingSource = {
+  id: CRAIGSLIST_SOURCE_ID,
+  label: 'Craigslist',
+  defaultEnabled: false,
+  // Dates, map addresses and photos only come from the posting pages, so they need detail enrichment
+  capabilities: { radius: true, dates: true, streetAddresses: true, images: true, detailPages: true, saleTypes: false },
+  search: (location, radius, options) =>
+    collectSourceResult(
+      CRAIGSLIST_SOURCE_ID,
+      () => FirecrawlService.searchCraigslist(location, radius, {
+        enrichDetails: options?.enrichDetails,
+        maxPages: options?.maxPages,
+        forceRefresh: options?.forceRefresh,
+        onProgress: options?.onProgress,
+        onListings: options?.onListings,
+      }),
+      (data) => (data as Listing[]) || []
+    ),
+};
@@ -0,0 +1,42 @@
+import type { SearchSalesSourceReport } from '@/utils/FirecrawlService';
+import type { Listing, SourceSearchResult } from './types';
+
+type LegacyResult = { success: boolean; error?: string; data?: unknown; fetchedAt?: string; report?: SearchSalesSourceReport };
+
+// Runs one source's scrape and wraps the outcome with timing and a listing count
+export const collectSourceResult = async (
+  sourceId: string,
+  run: () => Promise<LegacyResult>,
+  normalize: (data: unknown) => Listing[]
+): Promise<SourceSearchResult> => {
+  const start = performance.now();
+  try {
+    const result = await run();
+    const listings = result.success ? normalize(result.data) : [];
+    return {
+      listings,
+      diagnostics: {
+        sourceId,
+        ok: result.success,
+        error: result.success ? undefined : result.error,
+        failure: result.report?.failure,
+        durationMs: Math.round(performance.now() - start),
+        listingCount: listings.length,
+        fetchedAt: result.fetchedAt,
+        pages: result.report?.pages,
+        parserDrift: result.report?.parserDrift,
+      },
+    };
+  } catch (error) {
+    return {
+      listings: [],
+      diagnostics: {
+        sourceId,
+        ok: false,
+        error: error instanceof Error ? error.message : 'Search failed',
+        durationMs: Math.round(performance.now() - start),
+        listingCount: 0,
+      },
+    };
+  }
+};
@@ -0,0 +1,24 @@
+import { FirecrawlService } from '@/utils/FirecrawlService';
+import { ESTATESALES_SOURCE_ID } from '@shared/listings/estatesales';
+import { collectSourceResult } from './diagnostics';
+import type { ListingSource, Listing } from './types';
+
+export const estateSalesNetSource: ListingSource = {
+  id: ESTATESALES_SOURCE_ID,
+  label: 'EstateSales.net',
+  defaultEnabled: true,
+  capabilities: { radius: true, dates: true, streetAddresses: true, images: true, detailPages: true, saleTypes: true },
+  search: (location, radius, options) =>
+    collectSourceResult(
+      ESTATESALES_SOURCE_ID,
+      () => FirecrawlService.crawlWebsite(location, radius, {
+        enrichDetails: options?.enrichDetails,
+        maxPages: options?.maxPages,
+        forceRefresh: options?.forceRefresh,
+        saleTypes: options?.saleTypes,
+        onProgress: options?.onProgress,
+        onListings: options?.onListings,
+      }),
+      (data) => (data as Listing[]) || []
+    ),
+};
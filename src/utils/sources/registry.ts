@@ -0,0 +1,23 @@
+import { craigslistSource } from './craigslist';
+import { estateSalesNetSource } from './estateSalesNet';
+import { thriftStoresSource } from './thriftStores';
+import type { ListingSource } from './types';
+
+// Order here is the order the "Include" toggles are rendered in
+const sources: ListingSource[] = [estateSalesNetSource, thriftStoresSource, craigslistSource];
+
+export const listingSources = {
+  all: (): ListingSource[] => [...sources],
+
+  get: (id: string): ListingSource | undefined => sources.find((source) => source.id === id),
+
+  register(source: ListingSource) {
+    if (sources.some((existing) => existing.id === source.id)) {
+      throw new Error(`Listing source "${source.id}" is already registered`);
+    }
+    sources.push(source);
+  },
+
+  defaultSelection: (): Record<string, boolean> =>
+    Object.fromEntries(sources.map((source) => [source.id, source.defaultEnabled])),
+};
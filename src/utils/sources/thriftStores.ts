@@ -0,0 +1,21 @@
+import { Store } from 'lucide-react';
+import { FirecrawlService } from '@/utils/FirecrawlService';
+import { validateListings } from '@shared/listings/schema';
+import { collectSourceResult } from './diagnostics';
+import type { ListingSource } from './types';
+
+export const thriftStoresSource: ListingSource = {
+  id: 'thrift-stores',
+  label: 'Thrift stores',
+  icon: Store,
+  defaultEnabled: false,
+  capabilities: { radius: true, dates: false, streetAddresses: true, images: false, detailPages: false, saleTypes: false },
+  // Places come straight from Google, so they get the same check search-sales gives scraped listings
+  search: (location, radius) =>
+    collectSourceResult(
+      'thrift-stores',
+      () => FirecrawlService.searchThriftStores(location, radius),
+      (data) =>
+        validateListings(((data as object[]) || []).map((store) => ({ ...store, source: 'thrift-stores', type: 'thrift_store' }))).listings
+    ),
+};
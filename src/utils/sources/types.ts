@@ -0,0 +1,62 @@
+import type { LucideIcon } from 'lucide-react';
+import type { Listing } from '@shared/listings/types';
+import type { FailureKind } from '@shared/scrapePolicy';
+import type { SearchSalesPageReport } from '@/utils/FirecrawlService';
+
+export type { Listing } from '@shared/listings/types';
+
+// What a source can tell us about its listings, used to decide how results are shown
+export interface SourceCapabilities {
+  radius: boolean;
+  dates: boolean;
+  streetAddresses: boolean;
+  images: boolean;
+  detailPages: boolean;
+  // Whether the source can search type-specific pages (moving sales, auctions, ...)
+  saleTypes: boolean;
+}
+
+export interface SourceDiagnostics {
+  sourceId: string;
+  ok: boolean;
+  error?: string;
+  // Why the source's pages could not be fetched (blocked, timeout, rate-limited, ...)
+  failure?: FailureKind;
+  durationMs: number;
+  listingCount: number;
+  // When the underlying pages were fetched; older than the search itself when served from cache
+  fetchedAt?: string;
+  // Per-URL fetch and parse results, for sources scraped by the search-sales edge function
+  pages?: SearchSalesPageReport[];
+  parserDrift?: boolean;
+}
+
+export interface SourceSearchOptions {
+  // Fetch each listing's own page for the full address, hours, terms and photos (costs a scrape per listing)
+  enrichDetails?: boolean;
+  // How many result pages to walk; larger values search deeper at the cost of more scrapes
+  maxPages?: number;
+  // Skip cached pages and scrape again
+  forceRefresh?: boolean;
+  // SALE_TYPES ids to search for; empty means every type
+  saleTypes?: string[];
+  // Sources that stream report pages fetched out of pages planned, and listings as each page is parsed;
+  // a listing reported again (same id) replaces the earlier copy
+  onProgress?: (pagesDone: number, pagesPlanned: number) => void;
+  onListings?: (listings: Listing[]) => void;
+}
+
+export interface SourceSearchResult {
+  listings: Listing[];
+  diagnostics: SourceDiagnostics;
+}
+
+export interface ListingSource {
+  id: string;
+  label: string;
+  icon?: LucideIcon;
+  defaultEnabled: boolean;
+  capabilities: SourceCapabilities;
+  // `location` is the estatesales.net location URL produced by LocationInput, or a free-form location
+  search(location: string, radius: number, options?: SourceSearchOptions): Promise<SourceSearchResult>;
+}
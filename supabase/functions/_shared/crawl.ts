@@ -0,0 +1,126 @@
+import { markdownOf, type ScrapeResult } from './scrape.ts';
+
+export type Scraper = (urls: string[]) => Promise<ScrapeResult[]>;
+
+// Each Firecrawl scrape costs one credit, retries included; the budget is shared by everything one search does.
+// Callers reserve one credit per URL before scraping and pass the budget down so scrapeUrls can charge retries.
+export class CreditBudget {
+  used = 0;
+
+  constructor(readonly limit: number) {}
+
+  get remaining() {
+    return Math.max(0, this.limit - this.used);
+  }
+
+  // Reserves up to `wanted` credits and returns how many were granted
+  take(wanted: number): number {
+    const granted = Math.min(wanted, this.remaining);
+    this.used += granted;
+    return granted;
+  }
+
+  // Gives back credits reserved for pages that never reached Firecrawl: cache hits, pages skipped before any attempt,
+  // and pages served by the direct-fetch backend
+  refundUnspent(results: ScrapeResult[]) {
+    this.used -= results.filter((r) => r.cached || r.attempts === 0 || (r.backend && r.backend !== 'firecrawl')).length;
+  }
+}
+
+export interface Paginator {
+  pageUrl(baseUrl: string, page: number): string;
+  // Total pages advertised by the pagination links, when the site shows them
+  pageCount?(markdown: string, baseUrl: string): number | null;
+  // Whether the page links to a following page at all
+  hasNextPage?(markdown: string, page: number): boolean;
+  // Stable keys (usually listing URLs) used to tell whether a page added anything new
+  listingKeys(markdown: string): string[];
+}
+
+export type CrawlStopReason = 'last-page' | 'no-new-listings' | 'page-limit' | 'budget' | 'fetch-failed';
+
+export interface CrawlResult {
+  pages: ScrapeResult[];
+  pagesPlanned: number;
+  stopReason: CrawlStopReason;
+}
+
+export interface CrawlOptions {
+  maxPages: number;
+  budget: CreditBudget;
+  // Called with each batch of fetched pages as it arrives, and the current estimate of pages to fetch
+  onPages?: (pages: ScrapeResult[], pagesPlanned: number) => void;
+}
+
+// Walks result pages until the site runs out, a page adds no new listings, or the page/credit budget is spent
+export async function crawlPaginated(
+  scrape: Scraper,
+  baseUrl: string,
+  paginator: Paginator,
+  { maxPages, budget, onPages }: CrawlOptions
+): Promise<CrawlResult> {
+  if (budget.take(1) === 0) {
+    return { pages: [], pagesPlanned: 0, stopReason: 'budget' };
+  }
+
+  const [first] = await scrape([baseUrl]);
+  budget.refundUnspent([first]);
+  const pages: ScrapeResult[] = [first];
+  if (!first.success) {
+    onPages?.([first], 1);
+    return { pages, pagesPlanned: 1, stopReason: 'fetch-failed' };
+  }
+
+  const firstMarkdown = markdownOf(first);
+  const seen = new Set(paginator.listingKeys(firstMarkdown));
+  const advertised = paginator.pageCount?.(firstMarkdown, baseUrl) ?? null;
+  const lastPage = Math.min(maxPages, advertised ?? maxPages);
+  const pagesPlanned = lastPage;
+  const onlyPage = (advertised !== null && advertised <= 1) ||
+    (advertised === null && paginator.hasNextPage && !paginator.hasNextPage(firstMarkdown, 1));
+
+  onPages?.([first], onlyPage ? 1 : pagesPlanned);
+  if (onlyPage) {
+    return { pages, pagesPlanned: 1, stopReason: 'last-page' };
+  }
+
+  let page = 2;
+  while (page <= lastPage) {
+    // When the page count is known we can fetch a few ahead; otherwise go one page at a time
+    const wanted = advertised !== null ? Math.min(3, lastPage - page + 1) : 1;
+    const granted = budget.take(wanted);
+    if (granted === 0) {
+      return { pages, pagesPlanned, stopReason: 'budget' };
+    }
+
+    const urls = Array.from({ length: granted }, (_, i) => paginator.pageUrl(baseUrl, page + i));
+    const results = await scrape(urls);
+    budget.refundUnspent(results);
+    pages.push(...results);
+    onPages?.(results, pagesPlanned);
+
+    for (let i = 0; i < results.length; i++) {
+      const result = results[i];
+      if (!result.success) {
+        return { pages, pagesPlanned, stopReason: 'fetch-failed' };
+      }
+
+      const markdown = markdownOf(result);
+      const fresh = paginator.listingKeys(markdown).filter((key) => !seen.has(key));
+      fresh.forEach((key) => seen.add(key));
+      if (fresh.length === 0) {
+        return { pages, pagesPlanned, stopReason: 'no-new-listings' };
+      }
+      if (advertised === null && paginator.hasNextPage && !paginator.hasNextPage(markdown, page + i)) {
+        return { pages, pagesPlanned, stopReason: 'last-page' };
+      }
+    }
+
+    page += granted;
+    if (granted < wanted) {
+      return { pages, pagesPlanned, stopReason: 'budget' };
+    }
+  }
+
+  return { pages, pagesPlanned, stopReason: advertised !== null && lastPage === advertised ? 'last-page' : 'page-limit' };
+}
@@ -0,0 +1,44 @@
+// Geocoding types shared by the geocode edge function, the functions that geocode for themselves and the browser
+// (src/lib/geocode.ts). Providers live in geocodeProviders.ts, the geocode_cache table in geocodeCache.ts.
+
+// How exactly a result pins the address, best first: the building itself, somewhere along its street,
+// the middle of its postal code, or just its town
+export type GeocodePrecision = 'rooftop' | 'street' | 'postal' | 'city';
+
+export const GEOCODE_PRECISIONS: GeocodePrecision[] = ['rooftop', 'street', 'postal', 'city'];
+
+export interface GeocodeResult {
+  lat: number;
+  lng: number;
+  precision: GeocodePrecision;
+  // The provider's spelling of what it found
+  formattedAddress: string;
+  // mapbox, google, local, or "input" when the address already was a coordinate pair
+  provider: string;
+  // Served from geocode_cache rather than the provider
+  cached?: boolean;
+}
+
+// True when `precision` is at least as exact as `atLeast`
+export const isPreciseTo = (precision: GeocodePrecision, atLeast: GeocodePrecision) =>
+  GEOCODE_PRECISIONS.indexOf(precision) <= GEOCODE_PRECISIONS.indexOf(atLeast);
+
+// Cache key: one spelling per address, so "123 Main St.,  Troy MI" and "123 main st, troy, mi" share an entry
+export function normalizeGeocodeAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/[.#]/g, '')
+    .replace(/\s*,\s*/g, ', ')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s,]+|[\s,]+$/g, '');
+}
+
+// "42.56, -83.15" needs no provider
+export function parseCoordinates(address: string): GeocodeResult | null {
+  const match = address.match(/^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/);
+  if (!match) return null;
+  const lat = parseFloat(match[1]);
+  const lng = parseFloat(match[2]);
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng, precision: 'rooftop', formattedAddress: address.trim(), provider: 'input' };
+}
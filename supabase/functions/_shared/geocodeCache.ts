@@ -0,0 +1,105 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.53.0';
+import { normalizeGeocodeAddress, parseCoordinates, type GeocodeResult } from './geocode.ts';
+import type { GeocodeProvider } from './geocodeProviders.ts';
+
+// Addresses don't move; re-geocode now and then in case the provider's data improved
+export const GEOCODE_CACHE_TTL_SECONDS = 180 * 24 * 60 * 60;
+
+// Provider calls in flight at once, to stay under per-second rate limits
+const GEOCODE_CONCURRENCY = 5;
+
+interface GeocodeCacheRow {
+  address_key: string;
+  lat: number;
+  lng: number;
+  precision: GeocodeResult['precision'];
+  formatted_address: string;
+  provider: string;
+}
+
+async function geocodeEach(provider: GeocodeProvider, addresses: string[]): Promise<(GeocodeResult | null)[]> {
+  const results: (GeocodeResult | null)[] = new Array(addresses.length).fill(null);
+  let next = 0;
+  const worker = async () => {
+    while (next < addresses.length) {
+      const i = next++;
+      try {
+        results[i] = await provider.geocode(addresses[i]);
+      } catch (error) {
+        console.error(`${provider.id} geocoding failed for "${addresses[i]}":`, error);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(GEOCODE_CONCURRENCY, addresses.length) }, worker));
+  return results;
+}
+
+// Results line up with `addresses`; null where nothing usable was found. Each distinct address (after
+// normalization) is looked up once: from geocode_cache when it has a fresh entry from the same provider, else from
+// the provider, whose answers are stored. The local stand-in's made-up points are never stored, so they can't
+// outlive an offline run. Coordinate pairs are passed through. Cache failures are logged and treated as misses.
+export async function geocodeWithCache(
+  provider: GeocodeProvider,
+  db: SupabaseClient | null,
+  addresses: string[],
+  { ttlSeconds = GEOCODE_CACHE_TTL_SECONDS }: { ttlSeconds?: number } = {}
+): Promise<(GeocodeResult | null)[]> {
+  const keys = addresses.map(normalizeGeocodeAddress);
+  const found = new Map<string, GeocodeResult | null>();
+  addresses.forEach((address, i) => {
+    const coordinates = parseCoordinates(address);
+    if (coordinates) found.set(keys[i], coordinates);
+    else if (!keys[i]) found.set(keys[i], null);
+  });
+
+  const wanted = Array.from(new Set(keys.filter((key) => !found.has(key))));
+  if (db && wanted.length > 0) {
+    const freshAfter = new Date(Date.now() - ttlSeconds * 1000).toISOString();
+    const { data, error } = await db
+      .from('geocode_cache')
+      .select('address_key, lat, lng, precision, formatted_address, provider')
+      .in('address_key', wanted)
+      .eq('provider', provider.id)
+      .gte('fetched_at', freshAfter);
+    if (error) {
+      console.error('geocode_cache lookup failed:', error);
+    } else {
+      for (const row of (data || []) as GeocodeCacheRow[]) {
+        found.set(row.address_key, {
+          lat: row.lat,
+          lng: row.lng,
+          precision: row.precision,
+          formattedAddress: row.formatted_address,
+          provider: row.provider,
+          cached: true,
+        });
+      }
+    }
+  }
+
+  // First spelling of each missing address goes to the provider
+  const misses = wanted.filter((key) => !found.has(key));
+  const missAddresses = misses.map((key) => addresses[keys.indexOf(key)]);
+  const geocoded = await geocodeEach(provider, missAddresses);
+  misses.forEach((key, i) => found.set(key, geocoded[i]));
+
+  const rows = misses.flatMap((key, i) => {
+    const result = geocoded[i];
+    return result && result.provider !== 'local' ? [{
+      address_key: key,
+      lat: result.lat,
+      lng: result.lng,
+      precision: result.precision,
+      formatted_address: result.formattedAddress,
+      provider: result.provider,
+      fetched_at: new Date().toISOString(),
+    }] : [];
+  });
+  if (db && rows.length > 0) {
+    const { error } = await db.from('geocode_cache').upsert(rows, { onConflict: 'address_key' });
+    if (error) console.error('geocode_cache write failed:', error);
+  }
+
+  console.log(`geocode cache: ${wanted.length - misses.length} hits, ${misses.length} misses (${provider.id})`);
+  return keys.map((key) => found.get(key) || null);
+}
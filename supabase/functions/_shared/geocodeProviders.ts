@@ -0,0 +1,126 @@
+import { normalizeGeocodeAddress, parseCoordinates, type GeocodePrecision, type GeocodeResult } from './geocode.ts';
+import { hash53 } from './listings/identity.ts';
+import { providerFetch, providerSecret } from './transport.ts';
+
+export interface GeocodeProvider {
+  id: string;
+  // The best match in the US, or null when the provider found nothing more exact than a region
+  geocode(address: string): Promise<GeocodeResult | null>;
+}
+
+// Mapbox says what kind of place it matched, and for addresses whether it interpolated along the street
+function mapboxPrecision(feature: { place_type?: string[]; properties?: { accuracy?: string } }): GeocodePrecision | null {
+  const type = feature.place_type?.[0];
+  if (type === 'address') {
+    const accuracy = feature.properties?.accuracy;
+    return accuracy === 'rooftop' || accuracy === 'parcel' || accuracy === 'point' ? 'rooftop' : 'street';
+  }
+  if (type === 'street') return 'street';
+  if (type === 'postcode') return 'postal';
+  if (type === 'place' || type === 'locality' || type === 'neighborhood' || type === 'district') return 'city';
+  return null;
+}
+
+export function mapboxGeocoder(accessToken: string): GeocodeProvider {
+  return {
+    id: 'mapbox',
+    async geocode(address) {
+      const url = `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(address)}.json?` +
+        `access_token=${accessToken}&country=us&limit=1`;
+      const res = await providerFetch('mapbox', url);
+      if (!res.ok) throw new Error(`Mapbox geocoding failed with status ${res.status}`);
+      const feature = (await res.json()).features?.[0];
+      const precision = feature && mapboxPrecision(feature);
+      if (!precision) return null;
+      const [lng, lat] = feature.center;
+      return { lat, lng, precision, formattedAddress: feature.place_name, provider: 'mapbox' };
+    },
+  };
+}
+
+// Google's location_type says how the point was placed; for approximate results the matched types say what of
+function googlePrecision(result: { geometry: { location_type?: string }; types?: string[] }): GeocodePrecision | null {
+  const types = result.types || [];
+  switch (result.geometry.location_type) {
+    case 'ROOFTOP':
+      return 'rooftop';
+    case 'RANGE_INTERPOLATED':
+      return 'street';
+  }
+  if (types.includes('street_address') || types.includes('premise') || types.includes('route')) return 'street';
+  if (types.includes('postal_code')) return 'postal';
+  if (types.some((type) => type === 'locality' || type === 'sublocality' || type === 'neighborhood')) return 'city';
+  return null;
+}
+
+export function googleGeocoder(apiKey: string): GeocodeProvider {
+  return {
+    id: 'google',
+    async geocode(address) {
+      const url = new URL('https://maps.googleapis.com/maps/api/geocode/json');
+      url.searchParams.set('address', address);
+      url.searchParams.set('components', 'country:US');
+      url.searchParams.set('key', apiKey);
+      const res = await providerFetch('google', url);
+      if (!res.ok) throw new Error(`Google geocoding failed with status ${res.status}`);
+      const data = await res.json();
+      if (data.status === 'ZERO_RESULTS') return null;
+      if (data.status !== 'OK') throw new Error(`Google geocoding failed: ${data.status}`);
+      const result = data.results[0];
+      const precision = googlePrecision(result);
+      if (!precision) return null;
+      return { ...result.geometry.location, precision, formattedAddress: result.formatted_address, provider: 'google' };
+    },
+  };
+}
+
+// Geographic center of the contiguous US
+const DEFAULT_LOCAL_CENTER = { lat: 39.8283, lng: -98.5795 };
+const LOCAL_SPREAD_DEGREES = 0.15;
+
+// Stand-in for offline runs (GEOCODE_PROVIDER=local): a hash of the address picks a stable made-up point near
+// `center`. Good enough to exercise maps and routes; every result is marked city-level, since none is real.
+export function localGeocoder(center: { lat: number; lng: number } = DEFAULT_LOCAL_CENTER): GeocodeProvider {
+  return {
+    id: 'local',
+    geocode(address) {
+      const hash = hash53(normalizeGeocodeAddress(address));
+      const dLat = ((hash % 10007) / 10007 - 0.5) * 2 * LOCAL_SPREAD_DEGREES;
+      const dLng = ((Math.floor(hash / 10007) % 10009) / 10009 - 0.5) * 2 * LOCAL_SPREAD_DEGREES;
+      return Promise.resolve({
+        lat: center.lat + dLat,
+        lng: center.lng + dLng,
+        precision: 'city',
+        formattedAddress: address,
+        provider: 'local',
+      });
+    },
+  };
+}
+
+// Picks the geocoder from configuration:
+//   GEOCODE_PROVIDER=google   Google Geocoding API (needs GOOGLE_PLACES_API_KEY)
+//   GEOCODE_PROVIDER=mapbox   Mapbox Geocoding API (needs MAPBOX_ACCESS_TOKEN or MAPBOX_PUBLIC_TOKEN)
+//   GEOCODE_PROVIDER=local    the offline stand-in, centered on GEOCODE_LOCAL_CENTER ("lat,lng")
+//   GEOCODE_PROVIDER=auto     Google, else Mapbox, by which keys are set (the default)
+// Returns null when the configured provider has no key. The stand-in is never picked automatically: its points are
+// made up, and a deployment missing its keys should fail rather than put sales in the wrong place.
+export function createGeocodeProvider(): GeocodeProvider | null {
+  const mode = (Deno.env.get('GEOCODE_PROVIDER') || 'auto').toLowerCase();
+  const googleKey = providerSecret('GOOGLE_PLACES_API_KEY');
+  const mapboxToken = providerSecret('MAPBOX_ACCESS_TOKEN') || providerSecret('MAPBOX_PUBLIC_TOKEN');
+
+  if (mode === 'local') return localGeocoder(parseCoordinates(Deno.env.get('GEOCODE_LOCAL_CENTER') || '') || undefined);
+  if (mode === 'google') {
+    if (!googleKey) console.error('GOOGLE_PLACES_API_KEY not found in environment');
+    return googleKey ? googleGeocoder(googleKey) : null;
+  }
+  if (mode === 'mapbox') {
+    if (!mapboxToken) console.error('MAPBOX_ACCESS_TOKEN not found in environment');
+    return mapboxToken ? mapboxGeocoder(mapboxToken) : null;
+  }
+  if (googleKey) return googleGeocoder(googleKey);
+  if (mapboxToken) return mapboxGeocoder(mapboxToken);
+  console.error('No geocoding key set (GOOGLE_PLACES_API_KEY or MAPBOX_ACCESS_TOKEN); set GEOCODE_PROVIDER=local for offline runs');
+  return null;
+}
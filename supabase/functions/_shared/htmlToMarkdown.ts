@@ -0,0 +1,83 @@
+// Renders a parsed HTML document as the markdown dialect Firecrawl returns, so the listing parsers
+// work unchanged on directly fetched pages: absolute links and images, **bold**, # headings, and
+// `\` line breaks inside link text (a whole sale card is one link on estatesales.net).
+
+// The few DOM members we read; satisfied by deno_dom and by browser DOMs alike
+export interface DomNode {
+  nodeType: number;
+  nodeName: string;
+  textContent: string | null;
+  childNodes: ArrayLike<DomNode>;
+  getAttribute?(name: string): string | null;
+}
+
+const TEXT_NODE = 3;
+const ELEMENT_NODE = 1;
+
+const SKIPPED = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'SVG', 'HEAD', 'IFRAME', 'TEMPLATE', 'BUTTON', 'FORM', 'SELECT']);
+const BLOCKS = new Set([
+  'P', 'DIV', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'NAV', 'ASIDE', 'MAIN', 'UL', 'OL', 'LI',
+  'TABLE', 'TR', 'DL', 'DT', 'DD', 'BLOCKQUOTE', 'PRE', 'FIGURE', 'FIGCAPTION', 'ADDRESS', 'TIME',
+]);
+
+function absolute(href: string | null, pageUrl: string): string {
+  if (!href) return '';
+  try {
+    return new URL(href, pageUrl).href;
+  } catch {
+    return href;
+  }
+}
+
+function render(node: DomNode, pageUrl: string): string {
+  if (node.nodeType === TEXT_NODE) {
+    return (node.textContent || '').replace(/\s+/g, ' ');
+  }
+  if (node.nodeType !== ELEMENT_NODE && node.nodeName !== '#document') return '';
+
+  const tag = node.nodeName.toUpperCase();
+  if (SKIPPED.has(tag)) return '';
+
+  const inner = () => Array.from(node.childNodes, (child) => render(child, pageUrl)).join('');
+  const attr = (name: string) => node.getAttribute?.(name) ?? null;
+
+  switch (tag) {
+    case 'BR':
+      return '\n';
+    case 'IMG': {
+      const src = absolute(attr('src') || attr('data-src'), pageUrl);
+      return src && !src.startsWith('data:') ? `![${(attr('alt') || '').replace(/[[\]]/g, '')}](${src})` : '';
+    }
+    case 'A': {
+      const href = absolute(attr('href'), pageUrl);
+      const text = inner().split('\n').map((line) => line.trim()).filter(Boolean).join('\\\n');
+      if (!text) return '';
+      return href && !href.startsWith('javascript:') ? `[${text}](${href})` : text;
+    }
+    case 'STRONG':
+    case 'B': {
+      const text = inner().trim();
+      return text ? `**${text}**` : '';
+    }
+    case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6': {
+      const text = inner().trim();
+      return text ? `\n\n${'#'.repeat(Number(tag[1]))} ${text}\n\n` : '';
+    }
+    case 'TD':
+    case 'TH':
+      return ` ${inner().trim()} |`;
+    case 'LI':
+      return `\n- ${inner().trim()}\n`;
+    default:
+      return BLOCKS.has(tag) ? `\n${inner()}\n` : inner();
+  }
+}
+
+export function htmlToMarkdown(root: DomNode, pageUrl: string): string {
+  return render(root, pageUrl)
+    .split('\n')
+    .map((line) => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
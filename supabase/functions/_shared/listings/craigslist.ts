@@ -0,0 +1,78 @@
+import { classifySaleType } from './saleTypes.ts';
+import type { ScrapePolicy } from '../scrapePolicy.ts';
+import type { CraigslistListing, ParseResult } from './types.ts';
+
+export const CRAIGSLIST_SOURCE_ID = 'craigslist';
+
+// Craigslist blocks bursts of traffic quickly, so requests go one at a time with a longer pause
+export const CRAIGSLIST_SCRAPE_POLICY: Partial<ScrapePolicy> = {
+  concurrency: 1,
+  delayMs: 2000,
+  maxRetries: 1,
+  backoffMs: 3000,
+};
+
+// Zip from an estatesales.net location URL ("/MI/Troy/48084") or a free-form location
+export function extractZipcode(location: string): string {
+  const zipMatch = location.includes('estatesales.net')
+    ? location.match(/\/(\d{5})(?:\D|$)/)
+    : location.match(/\b(\d{5})\b/);
+  return zipMatch ? zipMatch[1] : '';
+}
+
+export function buildCraigslistSearchUrl(zipcode: string, radius: number): string {
+  const distance = radius === 999 ? 25 : radius;
+  return `https://www.craigslist.org/search/gms?postal=${zipcode}&search_distance=${distance}&query=estate%20sale&hasPic=1&bundleDuplicates=1`;
+}
+
+// Craigslist pages by result offset, 120 postings per page
+export function craigslistPageUrl(baseUrl: string, page: number): string {
+  return page <= 1 ? baseUrl : `${baseUrl}&s=${(page - 1) * 120}`;
+}
+
+export function parseCraigslistListings(markdown: string): CraigslistListing[] {
+  return parseCraigslistListingsWithStats(markdown).listings;
+}
+
+// Each posting link is one block; repeated links (thumbnail plus title) are skipped as duplicates
+export function parseCraigslistListingsWithStats(markdown: string): ParseResult<CraigslistListing> {
+  const items: CraigslistListing[] = [];
+  let blocksFound = 0;
+  let duplicates = 0;
+  const linkRegex = /\[([^\]]+)\]\((https?:\/\/[a-z0-9.-]*craigslist\.org\/[^)]+?\.html)\)/gi;
+  const seenUrls = new Set<string>();
+  let match: RegExpExecArray | null;
+  while ((match = linkRegex.exec(markdown)) !== null) {
+    // Link text can span several `\`-broken lines (title, price, place); the title is the first
+    const title = match[1].split(/\\|\n/).map((line) => line.trim()).find(Boolean) || '';
+    const url = match[2];
+    blocksFound++;
+    if (seenUrls.has(url)) {
+      duplicates++;
+      continue;
+    }
+    seenUrls.add(url);
+    // Try to capture neighborhood/location if present on same line, right after the link
+    const after = markdown.slice(match.index, match.index + 200);
+    const hoodMatch = markdown.slice(linkRegex.lastIndex, linkRegex.lastIndex + 100).match(/^[ \t]*\(([^)]+)\)[ \t]*(?:\n|$)/);
+    const neighborhood = hoodMatch ? hoodMatch[1] : '';
+    // Searches by postal code show how far each posting is ("3.4mi")
+    const distanceMatch = after.match(/(\d+(?:\.\d+)?)\s*mi\b/);
+    items.push({
+      source: CRAIGSLIST_SOURCE_ID,
+      type: 'estate_sale',
+      title,
+      url,
+      address: '',
+      description: neighborhood || 'Craigslist listing',
+      company: 'Craigslist',
+      sourceURL: url,
+      saleType: classifySaleType(title),
+      ...(distanceMatch ? { distance: `${Math.round(parseFloat(distanceMatch[1]))} miles away` } : {}),
+    });
+  }
+  return {
+    listings: items,
+    stats: { blocksFound, blocksSkipped: duplicates ? { 'duplicate link': duplicates } : {}, listingsProduced: items.length },
+  };
+}
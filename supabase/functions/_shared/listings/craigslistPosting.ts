@@ -0,0 +1,152 @@
+import { parseSaleSchedule } from './dates.ts';
+import { parseSaleDays, toPlainText } from './estatesalesDetail.ts';
+import { classifySaleType } from './saleTypes.ts';
+import type { EstateSaleDetail, Listing, SaleDay } from './types.ts';
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const CITY_STATE_ZIP = /^(.+?),\s*([A-Za-z.\s'-]+),\s*([A-Z]{2})\s*(\d{5})?$/;
+const IMAGE_PATTERN = /https:\/\/images\.craigslist\.org\/([A-Za-z0-9_]+?)_(\d+x\d+)\.jpg/g;
+
+export interface CraigslistPosting {
+  title: string;
+  postedAt?: string;
+  mapAddress?: string;
+  latitude?: number;
+  longitude?: number;
+  days: SaleDay[];
+  body: string;
+  photoUrls: string[];
+}
+
+// "google map" links carry either the pin (`@lat,lng`) or the typed address (`q=loc: ...`)
+function parseMapLink(markdown: string): Pick<CraigslistPosting, 'mapAddress' | 'latitude' | 'longitude'> {
+  const result: Pick<CraigslistPosting, 'mapAddress' | 'latitude' | 'longitude'> = {};
+
+  const pin = markdown.match(/data-latitude="(-?\d+\.\d+)"[^>]*data-longitude="(-?\d+\.\d+)"/) ||
+    markdown.match(/google\.com\/maps[^)\s]*@(-?\d+\.\d+),(-?\d+\.\d+)/);
+  if (pin) {
+    result.latitude = parseFloat(pin[1]);
+    result.longitude = parseFloat(pin[2]);
+  }
+
+  const query = markdown.match(/google\.com\/maps[^)\s]*[?&]q=loc(?:%3A|:)\+?([^)&\s]+)/i);
+  if (query) {
+    result.mapAddress = decodeURIComponent(query[1].replace(/\+/g, ' ')).replace(/\s+US$/, '').trim();
+  } else {
+    // The address sits on the line right above the "(google map)" link
+    const lines = markdown.split('\n').map((line) => toPlainText(line)).filter(Boolean);
+    const linkLine = lines.findIndex((line) => /google map/i.test(line));
+    const candidate = linkLine > 0 ? lines[linkLine].replace(/\(?google map\)?/i, '').trim() || lines[linkLine - 1] : '';
+    if (candidate && /\d|&|\bat\b/i.test(candidate) && candidate.length < 120) {
+      result.mapAddress = candidate;
+    }
+  }
+
+  return result;
+}
+
+// Garage/estate sale postings list their days as attributes ("saturday 2025-10-18", "start time: 8:00 AM");
+// free-text bodies usually say "Sat Oct 18 9am-3pm", which parseSaleDays already understands
+function parseAttributeDays(markdown: string): SaleDay[] {
+  const startTime = markdown.match(/start time:?\s*(\d{1,2}(?::\d{2})?\s*[AP]M)/i)?.[1];
+  const days: SaleDay[] = [];
+  for (const match of markdown.matchAll(/\b(mon|tues|wednes|thurs|fri|satur|sun)day\s+(\d{4})-(\d{2})-(\d{2})\b/gi)) {
+    const [, weekday, year, month, day] = match;
+    days.push({
+      weekday: weekday.slice(0, 3).replace(/^\w/, (c) => c.toUpperCase()),
+      date: `${MONTH_NAMES[parseInt(month) - 1]} ${parseInt(day)}, ${year}`,
+      hours: startTime ? `starts ${startTime}` : '',
+    });
+  }
+  return days;
+}
+
+function parseBody(markdown: string): string {
+  const start = markdown.search(/QR Code Link to This Post/i);
+  const afterQr = start >= 0 ? markdown.slice(start).replace(/^.*QR Code Link to This Post\s*/i, '') : markdown;
+  const end = afterQr.search(/\n\s*(?:post id:|posted:|updated:|do NOT contact me with unsolicited|♥ best of)/i);
+  return toPlainText(end >= 0 ? afterQr.slice(0, end) : afterQr);
+}
+
+// Craigslist serves each image in several sizes; keep one URL per image, preferring the 600x450 copy
+function parsePhotos(markdown: string): string[] {
+  const byImage = new Map<string, string>();
+  for (const match of markdown.matchAll(IMAGE_PATTERN)) {
+    const [url, id, size] = match;
+    if (!byImage.has(id) || size === '600x450') byImage.set(id, url);
+  }
+  return Array.from(byImage.values());
+}
+
+// Parses a Craigslist posting page (Firecrawl markdown)
+export function parseCraigslistPosting(markdown: string): CraigslistPosting {
+  const title = markdown.match(/^#\s+(.+)$/m)?.[1];
+  const posted = markdown.match(/posted:?\s*(?:\[)?\s*(\d{4}-\d{2}-\d{2})[\sT]+(\d{1,2}:\d{2})/i) ||
+    markdown.match(/datetime="(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})/);
+  const body = parseBody(markdown);
+
+  // Attribute dates are authoritative, but only the body says when each day ends
+  const bodyDays = parseSaleDays(body);
+  const attributeDays = parseAttributeDays(markdown).map((day) => {
+    const described = bodyDays.find((d) => day.date.startsWith(`${d.date.replace(/,\s*\d{4}$/, '')},`));
+    return described ? { ...day, hours: described.hours } : day;
+  });
+
+  return {
+    title: title ? toPlainText(title) : '',
+    postedAt: posted ? `${posted[1]}T${posted[2].padStart(5, '0')}:00` : undefined,
+    ...parseMapLink(markdown),
+    days: attributeDays.length > 0 ? attributeDays : bodyDays,
+    body,
+    photoUrls: parsePhotos(markdown),
+  };
+}
+
+// Folds a parsed posting into the listing, in the same shape estatesales.net detail enrichment produces
+export function withPosting(listing: Listing, posting: CraigslistPosting, now = new Date()): Listing {
+  const neighborhood = listing.description !== 'Craigslist listing' ? listing.description.replace(/^\(|\)$/g, '') : '';
+  const address = posting.mapAddress?.match(CITY_STATE_ZIP);
+
+  const detail: EstateSaleDetail = {
+    ...(address
+      ? { streetAddress: address[1], city: address[2].trim(), state: address[3], zipCode: address[4] || '', fullAddress: posting.mapAddress }
+      : posting.mapAddress
+        ? { streetAddress: posting.mapAddress, fullAddress: neighborhood ? `${posting.mapAddress}, ${neighborhood}` : posting.mapAddress }
+        : {}),
+    days: posting.days,
+    description: posting.body,
+    terms: '',
+    paymentMethods: [],
+    directions: '',
+    parking: '',
+    photoUrls: posting.photoUrls,
+  };
+
+  const enriched: Listing = {
+    ...listing,
+    detail,
+    description: posting.body ? posting.body.slice(0, 280) : listing.description,
+    postedAt: posting.postedAt,
+    // The posting's own heading and body say more than the search-result link text
+    saleType: classifySaleType(posting.title || listing.title, posting.body),
+    latitude: posting.latitude,
+    longitude: posting.longitude,
+  };
+
+  if (posting.days.length > 0) {
+    enriched.date = posting.days.map((d) => d.date.replace(/,\s*\d{4}$/, '')).join(', ');
+    enriched.time = posting.days.find((d) => /to|-|–/.test(d.hours))?.hours;
+    enriched.schedule = parseSaleSchedule(enriched.date, enriched.time, posting.days, now);
+  }
+  if (detail.fullAddress) {
+    enriched.address = detail.fullAddress;
+    enriched.streetAddress = detail.streetAddress;
+    enriched.city = detail.city || listing.city;
+    enriched.state = detail.state || listing.state;
+    enriched.zipCode = detail.zipCode || listing.zipCode;
+  }
+  if (!listing.imageUrl && posting.photoUrls.length > 0) {
+    enriched.imageUrl = posting.photoUrls[0];
+  }
+  return enriched;
+}
@@ -0,0 +1,147 @@
+import type { SaleDay, SaleSession } from './types.ts';
+
+const MONTHS: { [key: string]: number } = {
+  'jan': 0, 'feb': 1, 'mar': 2, 'apr': 3, 'may': 4, 'jun': 5,
+  'jul': 6, 'aug': 7, 'sep': 8, 'oct': 9, 'nov': 10, 'dec': 11
+};
+
+const MONTH_DAY = /(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.?\s+(\d{1,2})(?:,\s*(\d{4}))?/gi;
+const TIME_RANGE = /(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\.?\s*(?:to|-|–)\s*(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\.?/i;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Listings rarely carry a year, so pick the one that puts the date closest to `now`.
+// That keeps a January sale listed in December in the future instead of eleven months ago.
+function nearestYear(monthIndex: number, day: number, now: Date): Date {
+  const year = now.getFullYear();
+  const candidates = [year - 1, year, year + 1].map(y => new Date(y, monthIndex, day));
+  return candidates.reduce((best, candidate) =>
+    Math.abs(candidate.getTime() - now.getTime()) < Math.abs(best.getTime() - now.getTime()) ? candidate : best
+  );
+}
+
+// Parse estate sale date strings like "Dec 14, 2024", "Dec 14, Dec 15" or "Dec 14" (first date only)
+export function parseSaleDate(dateString: string, now = new Date()): Date | null {
+  const match = dateString.trim().match(/^(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.?\s+(\d{1,2})(?:,\s*(\d{4}))?/i);
+  if (!match) return null;
+
+  const [, month, day, year] = match;
+  const monthIndex = MONTHS[month.slice(0, 3).toLowerCase()];
+  const dayNum = parseInt(day);
+  if (monthIndex === undefined || dayNum < 1 || dayNum > 31) return null;
+
+  return year ? new Date(parseInt(year), monthIndex, dayNum) : nearestYear(monthIndex, dayNum, now);
+}
+
+// Every calendar day mentioned in "Oct 17, Oct 18", "Oct 17, 18" or "Dec 31, Jan 1"
+export function parseSaleDates(dateText: string, now = new Date()): Date[] {
+  const dates: Date[] = [];
+  const tokens = dateText.split(',').map(t => t.trim()).filter(Boolean);
+  let monthIndex: number | undefined;
+  let explicitYear: number | undefined;
+
+  for (const token of tokens) {
+    MONTH_DAY.lastIndex = 0;
+    const monthMatch = MONTH_DAY.exec(token);
+    let day: number | undefined;
+
+    if (monthMatch) {
+      monthIndex = MONTHS[monthMatch[1].slice(0, 3).toLowerCase()];
+      day = parseInt(monthMatch[2]);
+    } else if (/^\d{4}$/.test(token)) {
+      explicitYear = parseInt(token);
+      // A year belongs to the date right before it
+      const last = dates[dates.length - 1];
+      if (last) last.setFullYear(explicitYear);
+      continue;
+    } else if (/^\d{1,2}$/.test(token) && monthIndex !== undefined) {
+      day = parseInt(token);
+    }
+
+    if (monthIndex === undefined || !day || day > 31) continue;
+
+    const previous = dates[dates.length - 1];
+    let date = explicitYear ? new Date(explicitYear, monthIndex, day) : nearestYear(monthIndex, day, previous || now);
+    // Sale days run forward, so "Dec 31, Jan 1" wraps into the next year
+    if (previous && date < previous) {
+      date = new Date(date.getFullYear() + 1, monthIndex, day);
+    }
+    dates.push(date);
+  }
+
+  return dates;
+}
+
+const toHours = (hour: string, minute: string | undefined, meridiem: string) => {
+  let h = parseInt(hour) % 12;
+  if (meridiem.toLowerCase() === 'p') h += 12;
+  return { h, m: minute ? parseInt(minute) : 0 };
+};
+
+export function parseTimeRange(text?: string): { start: { h: number; m: number }; end: { h: number; m: number } } | null {
+  const match = text?.match(TIME_RANGE);
+  if (!match) return null;
+  const [, sh, sm, sp, eh, em, ep] = match;
+  return { start: toHours(sh, sm, sp), end: toHours(eh, em, ep) };
+}
+
+// Floating local time ("2025-10-17T09:00:00"): the sale's own wall-clock time, read as local by `new Date()`
+const toLocalIso = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}:00`;
+};
+
+const session = (day: Date, hours: ReturnType<typeof parseTimeRange>): SaleSession => {
+  const start = new Date(day);
+  const end = new Date(day);
+  if (hours) {
+    start.setHours(hours.start.h, hours.start.m, 0, 0);
+    end.setHours(hours.end.h, hours.end.m, 0, 0);
+  } else {
+    start.setHours(0, 0, 0, 0);
+    end.setHours(23, 59, 0, 0);
+  }
+  return { start: toLocalIso(start), end: toLocalIso(end), ...(hours ? {} : { allDay: true }) };
+};
+
+// Builds one session per sale day. Per-day hours from the detail page win over the card's single time range.
+export function parseSaleSchedule(dateText?: string, timeText?: string, days: SaleDay[] = [], now = new Date()): SaleSession[] {
+  if (days.length > 0) {
+    const dates = parseSaleDates(days.map(d => d.date).join(', '), now);
+    if (dates.length === days.length) {
+      return dates.map((date, i) => session(date, parseTimeRange(days[i].hours) || parseTimeRange(timeText)));
+    }
+  }
+
+  if (!dateText || dateText === 'Date TBD') return [];
+  const hours = parseTimeRange(timeText);
+  return parseSaleDates(dateText, now).map(date => session(date, hours));
+}
+
+export const scheduleStart = (schedule?: SaleSession[]): Date | null =>
+  schedule?.length ? new Date(schedule[0].start) : null;
+
+export const scheduleEnd = (schedule?: SaleSession[]): Date | null =>
+  schedule?.length ? new Date(schedule[schedule.length - 1].end) : null;
+
+// The session that is running now or comes next; null once the sale is over
+export function nextSession(schedule: SaleSession[] | undefined, now = new Date()): SaleSession | null {
+  return schedule?.find(s => new Date(s.end) >= now) || null;
+}
+
+// Sales without a parseable schedule are kept so nothing is dropped silently
+export function isTodayOrLater(schedule: SaleSession[] | undefined, now = new Date()): boolean {
+  const end = scheduleEnd(schedule);
+  if (!end) return true;
+
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  return end >= today;
+}
+
+// True when the sale has a session starting before `now + days`; undated sales always match
+export function startsWithinDays(schedule: SaleSession[] | undefined, days: number, now = new Date()): boolean {
+  const upcoming = nextSession(schedule, now);
+  if (!schedule?.length) return true;
+  if (!upcoming) return false;
+  return new Date(upcoming.start).getTime() <= now.getTime() + days * DAY_MS;
+}
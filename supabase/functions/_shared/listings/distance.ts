@@ -0,0 +1,49 @@
+import { CRAIGSLIST_SOURCE_ID } from './craigslist.ts';
+import type { Listing } from './types.ts';
+
+// Where a search and its listings are, as text to geocode, and how far apart two points are. The results page
+// (src/lib/distance.ts) and saved-search runs (savedSearchRuns.ts) measure radius the same way through these.
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+// The radius option meaning "All distances"
+export const ALL_DISTANCES_RADIUS = 999;
+
+export function milesBetween(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+}
+
+// City, state and zip code of an estatesales.net location URL, for prefilling the location box
+export function locationParts(location: string): { city: string; state: string; zipcode: string } | undefined {
+  const match = location.match(/estatesales\.net\/([A-Z]{2})\/([^/?#]+)(?:\/(\d{5}))?/i);
+  if (!match) return undefined;
+  return { state: match[1].toUpperCase(), city: decodeURIComponent(match[2]).replace(/-/g, ' '), zipcode: match[3] || '' };
+}
+
+// The place a search is centered on, as something to geocode: "Troy, MI 48084" from an estatesales.net
+// location URL ("/MI/Troy/48084"), or the location as typed
+export function searchOriginQuery(location: string): string {
+  const parts = locationParts(location);
+  if (!parts) return location.trim();
+  return `${parts.city}, ${parts.state}${parts.zipcode ? ` ${parts.zipcode}` : ''}`;
+}
+
+// Card text that sits where the address should be until the company publishes it
+const PLACEHOLDER_ADDRESS = /address (?:tbd|not available)|last modified|pictures?\b|picture added|\b(?:minutes|hours|days) ago/i;
+
+// The most exact thing a listing says about where it is: its address, else its town or zip code, else (Craigslist)
+// the neighborhood it was posted under. Empty when it says nothing.
+export function listingGeocodeQuery(listing: Listing): string {
+  const address = listing.detail?.fullAddress || listing.address || '';
+  if (address.trim() && !PLACEHOLDER_ADDRESS.test(address)) return address.trim();
+  const town = [listing.city, [listing.state, listing.zipCode].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+  if (town) return town;
+  if (listing.source === CRAIGSLIST_SOURCE_ID && listing.description && listing.description.length <= 40) {
+    return listing.description;
+  }
+  return '';
+}
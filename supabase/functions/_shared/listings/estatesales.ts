@@ -0,0 +1,231 @@
+import { isTodayOrLater, parseSaleSchedule } from './dates.ts';
+import { classifySaleType } from './saleTypes.ts';
+import type { ScrapePolicy } from '../scrapePolicy.ts';
+import type { ParseResult, ParseStats, RawListing } from './types.ts';
+
+export const ESTATESALES_SOURCE_ID = 'estatesales-net';
+
+export const ESTATESALES_SCRAPE_POLICY: Partial<ScrapePolicy> = {
+  concurrency: 2,
+  delayMs: 1500,
+};
+
+const STREET_PATTERN = /^\d+\s+[A-Za-z\s]+(dr|drive|st|street|ave|avenue|rd|road|ln|lane|way|circle|ct|court|pkwy|parkway|blvd|boulevard|place|pl)\b/i;
+
+const SALE_URL = /https:\/\/www\.estatesales\.net\/[A-Z]{2}\/[^/)\s]+\/\d{5}\/\d+/g;
+
+export function estateSalesPageUrl(baseUrl: string, page: number): string {
+  if (page <= 1) return baseUrl;
+  const separator = baseUrl.includes('?') ? '&' : '?';
+  return `${baseUrl}${separator}page=${page}`;
+}
+
+// Highest `page=N` among the pagination links back to this search; null when the page shows no pager
+export function estateSalesPageCount(markdown: string, baseUrl: string): number | null {
+  const path = baseUrl.replace(/[?#].*$/, '').replace(/\/$/, '').toLowerCase();
+  let highest: number | null = null;
+
+  for (const match of markdown.matchAll(/\]\((https:\/\/www\.estatesales\.net\/[^)\s]*[?&]page=(\d+)[^)\s]*)\)/gi)) {
+    if (!match[1].toLowerCase().startsWith(path)) continue;
+    highest = Math.max(highest ?? 1, parseInt(match[2]));
+  }
+
+  return highest;
+}
+
+// A "Next" link (or a link to page+1) means there is more to fetch
+export function estateSalesHasNextPage(markdown: string, page: number): boolean {
+  return /\[\s*(?:next|›|»|>)[^\]]*\]\([^)]*[?&]page=\d+/i.test(markdown) ||
+    new RegExp(`\\]\\([^)]*[?&]page=${page + 1}\\b`).test(markdown);
+}
+
+// Sale detail URLs on a results page, used to spot a page that repeats what we already have
+export function estateSalesListingUrls(markdown: string): string[] {
+  return Array.from(new Set(markdown.match(SALE_URL) || []));
+}
+
+const buildAddress = (streetAddress: string, city: string, state: string, zipCode: string) =>
+  `${streetAddress ? `${streetAddress}, ` : ''}${city}, ${state}${zipCode ? ' ' + zipCode : ''}`;
+
+// Skip reasons reported in ParseStats; only ENDED means a well-formed card was dropped on purpose
+export const SKIP_NOT_A_SALE = 'no sale link or title';
+export const SKIP_AGGREGATE = 'nearby or aggregate block';
+export const SKIP_UNTITLED = 'no title';
+export const SKIP_ENDED = 'sale already ended';
+
+const skip = (stats: ParseStats, reason: string) => {
+  stats.blocksSkipped[reason] = (stats.blocksSkipped[reason] || 0) + 1;
+};
+
+export function parseEstateSales(markdown: string, now = new Date()): RawListing[] {
+  return parseEstateSalesWithStats(markdown, now).listings;
+}
+
+// Parses estatesales.net search-result markdown; each sale card starts with an image link `[![`
+export function parseEstateSalesWithStats(markdown: string, now = new Date()): ParseResult {
+  const sales: RawListing[] = [];
+  const saleBlocks = markdown.split(/(?=\[!\[)/);
+  const stats: ParseStats = { blocksFound: Math.max(0, saleBlocks.length - 1), blocksSkipped: {}, listingsProduced: 0 };
+
+  for (let i = 1; i < saleBlocks.length; i++) { // Skip first block (header content)
+    const block = saleBlocks[i];
+
+    // Skip if this doesn't contain estatesales.net URL (not a real sale)
+    if (!block.includes('estatesales.net') || !block.includes('**')) {
+      skip(stats, SKIP_NOT_A_SALE);
+      continue;
+    }
+
+    // Skip aggregated search results or nearby listings
+    if (block.includes('Nearby [') ||
+        block.includes('Companies have paid extra') ||
+        block.includes('#### Statistics About') ||
+        block.includes('Featured Sales Please note') ||
+        (block.match(/\[.*?\]\(https:\/\/www\.estatesales\.net/g) || []).length > 5) {
+      skip(stats, SKIP_AGGREGATE);
+      continue;
+    }
+
+    const sale: RawListing = {
+      source: ESTATESALES_SOURCE_ID,
+      type: 'estate_sale',
+      title: '',
+      url: '',
+      address: '',
+      description: '',
+    };
+
+    const imageMatch = block.match(/\[!\[.*?\]\((https:\/\/[^)]+\.(?:jpg|jpeg|png|gif|webp))/i);
+    if (imageMatch) {
+      sale.imageUrl = imageMatch[1];
+    }
+
+    const titleMatch = block.match(/\*\*(.*?)\*\*/);
+    if (titleMatch) {
+      sale.title = titleMatch[1].trim().replace(/\\\\/g, '');
+    }
+
+    const companyMatch = block.match(/Listed by ([^\\]+)/);
+    if (companyMatch) {
+      sale.company = companyMatch[1].trim();
+    } else if (block.includes('Privately Listed Sale')) {
+      sale.company = 'Privately Listed Sale';
+    }
+
+    const pictureMatch = block.match(/(\d+)\s+Pictures/);
+    if (pictureMatch) {
+      sale.pictureCount = pictureMatch[1];
+    }
+
+    const modifiedMatch = block.match(/Last modified ([^.]+)/);
+    if (modifiedMatch) {
+      sale.lastModified = modifiedMatch[1].trim();
+    }
+
+    // Extract distance FIRST to avoid confusion with address
+    const distanceMatch = block.match(/(\d+\s+miles?\s+away|Less than \d+ miles away|Nearby[^\\]*)/);
+    if (distanceMatch) {
+      sale.distance = distanceMatch[1].trim();
+    }
+
+    // Now extract street address from the block content (excluding distance)
+    const lines = block.split(/[\\|\n\r]/);
+    let streetAddress = '';
+
+    for (const line of lines) {
+      const cleanLine = line.trim().replace(/\\\\/g, ' ').replace(/\s+/g, ' ');
+      if (!cleanLine || cleanLine.length < 5) continue;
+      if (cleanLine.includes('miles away') || cleanLine.includes('Nearby')) continue;
+
+      if (STREET_PATTERN.test(cleanLine)) {
+        streetAddress = cleanLine;
+        break;
+      }
+    }
+
+    // The sale URL carries the state, city and zip
+    const urlMatch = block.match(/\]\((https:\/\/www\.estatesales\.net\/([A-Z]{2})\/([^/]+)\/(\d{5})?[^)]*)\)/);
+
+    if (urlMatch) {
+      const [, fullUrl, state, cityFromUrl, zipCode] = urlMatch;
+      const city = cityFromUrl.replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+
+      sale.state = state;
+      sale.city = city;
+      sale.zipCode = zipCode || '';
+      sale.streetAddress = streetAddress;
+      sale.address = buildAddress(streetAddress, city, state, sale.zipCode);
+      sale.url = fullUrl;
+    } else {
+      // Fallback: try to find city/state info in the text
+      for (const line of lines) {
+        const cleanLine = line.trim();
+        if (!cleanLine || cleanLine.length < 3) continue;
+        if (cleanLine.includes('miles away') || cleanLine.includes('Nearby')) continue;
+
+        const cityMatch = cleanLine.match(/^([A-Za-z\s]+),?\s*([A-Z]{2})\s*(\d{5})?$/);
+        if (cityMatch) {
+          sale.city = cityMatch[1].trim();
+          sale.state = cityMatch[2];
+          sale.zipCode = cityMatch[3] || '';
+          sale.streetAddress = streetAddress;
+          sale.address = buildAddress(streetAddress, sale.city, sale.state, sale.zipCode);
+          break;
+        }
+      }
+    }
+
+    const dateMatch = block.match(/((?:Jul|Aug|Sep|Oct|Nov|Dec|Jan|Feb|Mar|Apr|May|Jun)\s+\d+(?:,\s+\d+)*(?:,\s*(?:Jul|Aug|Sep|Oct|Nov|Dec|Jan|Feb|Mar|Apr|May|Jun)\s+\d+)*)/);
+    if (dateMatch) {
+      sale.date = dateMatch[1].trim();
+    }
+
+    const timeMatch = block.match(/(\d{1,2}(?::\d{2})?\s*(?:am|pm)\s+to\s+\d{1,2}(?::\d{2})?\s*(?:am|pm))/);
+    if (timeMatch) {
+      sale.time = timeMatch[1].trim();
+    }
+
+    const statusMatch = block.match(/(Going on Now!|Starts Tomorrow!|Ends Today!|Resuming Today|Starts at)/);
+    if (statusMatch) {
+      sale.status = statusMatch[1].trim();
+    }
+
+    if (!sale.url) {
+      const fallbackUrlMatch = block.match(/\]\((https:\/\/www\.estatesales\.net\/[^)]+)\)/);
+      if (fallbackUrlMatch) {
+        sale.url = fallbackUrlMatch[1];
+      }
+    }
+
+    if (block.includes('Regionally Featured')) {
+      sale.featured = 'Regional';
+    } else if (block.includes('Nationally Featured')) {
+      sale.featured = 'National';
+    }
+
+    sale.schedule = parseSaleSchedule(sale.date, sale.time, [], now);
+    sale.saleType = classifySaleType(sale.title, block);
+    sale.markdown = block;
+
+    // Build a description from available info
+    const descParts = [];
+    if (sale.company) descParts.push(`Listed by ${sale.company}`);
+    if (sale.lastModified) descParts.push(`Last modified ${sale.lastModified}`);
+    if (sale.pictureCount) descParts.push(`${sale.pictureCount} pictures`);
+    if (sale.time) descParts.push(`${sale.time}`);
+    if (sale.status) descParts.push(sale.status);
+    sale.description = descParts.join(' • ');
+
+    // Only keep sales that have a title and are today or in the future
+    if (!sale.title) {
+      skip(stats, SKIP_UNTITLED);
+    } else if (!isTodayOrLater(sale.schedule, now)) {
+      skip(stats, SKIP_ENDED);
+    } else {
+      sales.push(sale);
+    }
+  }
+
+  stats.listingsProduced = sales.length;
+  return { listings: sales, stats };
+}
@@ -0,0 +1,134 @@
+import { parseSaleSchedule } from './dates.ts';
+import type { EstateSaleDetail, Listing, SaleDay } from './types.ts';
+
+const STREET_PATTERN = /^\d+\s+[A-Za-z0-9.\s]+(dr|drive|st|street|ave|avenue|rd|road|ln|lane|way|circle|cir|ct|court|pkwy|parkway|blvd|boulevard|place|pl|trail|trl|hwy|highway|ter|terrace)\b\.?/i;
+const CITY_STATE_ZIP = /^([A-Za-z.\s'-]+),\s*([A-Z]{2})\s*(\d{5})?$/;
+const DAY_PATTERN = /(?:(Mon|Tue|Wed|Thu|Fri|Sat|Sun)[a-z]*\.?,?\s+)?((?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.?\s+\d{1,2}(?:,\s*\d{4})?)\s*[:\-–|]?\s*(\d{1,2}(?::\d{2})?\s*[ap]\.?m\.?\s*(?:to|-|–)\s*\d{1,2}(?::\d{2})?\s*[ap]\.?m\.?)/gi;
+const IMAGE_PATTERN = /!\[[^\]]*\]\((https?:\/\/[^)\s]+\.(?:jpg|jpeg|png|gif|webp)(?:\?[^)\s]*)?)\)/gi;
+
+const PAYMENT_METHODS = ['Cash', 'Visa', 'MasterCard', 'Mastercard', 'American Express', 'Amex', 'Discover', 'Check', 'Venmo', 'PayPal', 'Zelle', 'Apple Pay', 'Google Pay', 'Cash App', 'Credit Card', 'Debit Card'];
+
+// Strips markdown links/emphasis so section text reads as plain prose
+export const toPlainText = (text: string) => text
+  .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+  .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/[*_`]+/g, '')
+  .replace(/\\+/g, ' ')
+  .replace(/[ \t]+/g, ' ')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+// Splits markdown into `heading -> body` pairs using `#` headings and standalone `**Bold**` lines
+function splitSections(markdown: string): { heading: string; body: string }[] {
+  const sections: { heading: string; body: string }[] = [];
+  let current = { heading: '', body: '' };
+
+  for (const line of markdown.split('\n')) {
+    const heading = line.match(/^\s*#{1,6}\s+(.+?)\s*#*\s*$/) || line.match(/^\s*\*\*([^*]{2,60})\*\*:?\s*$/);
+    if (heading) {
+      sections.push(current);
+      current = { heading: toPlainText(heading[1]).toLowerCase(), body: '' };
+    } else {
+      current.body += line + '\n';
+    }
+  }
+  sections.push(current);
+  return sections.filter(s => s.heading || s.body.trim());
+}
+
+const findSection = (sections: { heading: string; body: string }[], ...keywords: string[]) =>
+  sections.find(s => keywords.some(k => s.heading.includes(k)));
+
+function parseAddress(markdown: string): Pick<EstateSaleDetail, 'fullAddress' | 'streetAddress' | 'city' | 'state' | 'zipCode'> {
+  const lines = markdown
+    .split(/\n|\\{2,}/)
+    .map(line => toPlainText(line).replace(/^address:?\s*/i, ''))
+    .filter(Boolean);
+
+  for (let i = 0; i < lines.length; i++) {
+    const street = lines[i].match(STREET_PATTERN) ? lines[i].replace(/,\s*$/, '') : '';
+    if (!street) continue;
+
+    // "123 Main St, Troy, MI 48084" on one line
+    const inline = street.match(/^(.+?),\s*([A-Za-z.\s'-]+),\s*([A-Z]{2})\s*(\d{5})?$/);
+    if (inline) {
+      const [, streetAddress, city, state, zipCode = ''] = inline;
+      return { streetAddress, city: city.trim(), state, zipCode, fullAddress: `${streetAddress}, ${city.trim()}, ${state}${zipCode ? ' ' + zipCode : ''}` };
+    }
+
+    // Street on one line, "Troy, MI 48084" on the next
+    const next = lines[i + 1]?.match(CITY_STATE_ZIP);
+    if (next) {
+      const [, city, state, zipCode = ''] = next;
+      return { streetAddress: street, city: city.trim(), state, zipCode, fullAddress: `${street}, ${city.trim()}, ${state}${zipCode ? ' ' + zipCode : ''}` };
+    }
+  }
+
+  return {};
+}
+
+export function parseSaleDays(text: string): SaleDay[] {
+  const days: SaleDay[] = [];
+  const seen = new Set<string>();
+  for (const match of toPlainText(text).matchAll(DAY_PATTERN)) {
+    const [, weekday, date, hours] = match;
+    const key = `${date}|${hours}`.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    days.push({
+      ...(weekday ? { weekday } : {}),
+      date: date.replace(/\.$/, '').trim(),
+      hours: hours.replace(/\s+/g, ' ').trim(),
+    });
+  }
+  return days;
+}
+
+// Parses an estatesales.net sale detail page into the fields the search-results card leaves out
+export function parseEstateSaleDetail(markdown: string): EstateSaleDetail {
+  const sections = splitSections(markdown);
+
+  const datesSection = findSection(sections, 'dates', 'hours', 'times');
+  const descriptionSection = findSection(sections, 'description', 'details', 'about this sale', 'sale info');
+  const termsSection = findSection(sections, 'terms', 'payment');
+  const directionsSection = findSection(sections, 'direction');
+  const parkingSection = findSection(sections, 'parking');
+
+  const terms = termsSection ? toPlainText(termsSection.body) : '';
+  // Only the terms say how a sale takes payment; "check" or "Discover" elsewhere on the page means something else
+  const paymentMethods = PAYMENT_METHODS
+    .filter(method => new RegExp(`\\b${method}\\b`, 'i').test(terms))
+    .filter((method, i, all) => all.findIndex(m => m.toLowerCase() === method.toLowerCase()) === i);
+
+  const photoUrls = Array.from(new Set(Array.from(markdown.matchAll(IMAGE_PATTERN), m => m[1])));
+
+  return {
+    ...parseAddress(markdown),
+    days: parseSaleDays(datesSection ? datesSection.body : markdown),
+    description: descriptionSection ? toPlainText(descriptionSection.body) : '',
+    terms,
+    paymentMethods,
+    directions: directionsSection ? toPlainText(directionsSection.body) : '',
+    parking: parkingSection ? toPlainText(parkingSection.body) : '',
+    photoUrls,
+  };
+}
+
+// Per-day hours and a street address from the detail page beat the city/zip we get from the search-results URL
+export function withDetail(listing: Listing, detail: EstateSaleDetail, now = new Date()): Listing {
+  const enriched: Listing = { ...listing, detail };
+  if (detail.days.length > 0) {
+    enriched.schedule = parseSaleSchedule(listing.date, listing.time, detail.days, now);
+  }
+  if (detail.fullAddress) {
+    enriched.address = detail.fullAddress;
+    enriched.streetAddress = detail.streetAddress;
+    enriched.city = detail.city || listing.city;
+    enriched.state = detail.state || listing.state;
+    enriched.zipCode = detail.zipCode || listing.zipCode;
+  }
+  if (!listing.imageUrl && detail.photoUrls.length > 0) {
+    enriched.imageUrl = detail.photoUrls[0];
+  }
+  return enriched;
+}
@@ -0,0 +1,210 @@
+import { nextSession } from './dates.ts';
+import type { Listing, SaleSession } from './types.ts';
+
+// Narrowing of results that are already loaded: nothing here asks a source for more. Every criterion is also a
+// facet, so the panel can show how many listings each choice would leave, given the other choices.
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening';
+export type SaleStatus = 'going-on-now' | 'ends-today';
+export type FeaturedLevel = 'national' | 'regional' | 'none';
+
+export interface ResultFilters {
+  // Local calendar days, "2025-10-17"; a sale matches when one of its sessions falls between them
+  dateFrom?: string;
+  dateTo?: string;
+  // 0 (Sunday) to 6
+  weekdays: number[];
+  timesOfDay: TimeOfDay[];
+  sources: string[];
+  companies: string[];
+  statuses: SaleStatus[];
+  featured: FeaturedLevel[];
+  minPictures: number;
+  streetAddressOnly: boolean;
+}
+
+export type FilterFacet = 'weekday' | 'timeOfDay' | 'source' | 'company' | 'status' | 'featured' | 'pictures' | 'streetAddress';
+
+// Facet -> value -> listings that would match with that value chosen
+export type FacetCounts = Record<FilterFacet, Record<string, number>>;
+
+export const TIMES_OF_DAY: { id: TimeOfDay; label: string; from: number; to: number }[] = [
+  { id: 'morning', label: 'Morning', from: 0, to: 12 },
+  { id: 'afternoon', label: 'Afternoon', from: 12, to: 17 },
+  { id: 'evening', label: 'Evening', from: 17, to: 24 },
+];
+
+export const SALE_STATUSES: { id: SaleStatus; label: string }[] = [
+  { id: 'going-on-now', label: 'Going on Now' },
+  { id: 'ends-today', label: 'Ends Today' },
+];
+
+export const FEATURED_LEVELS: { id: FeaturedLevel; label: string }[] = [
+  { id: 'national', label: 'National' },
+  { id: 'regional', label: 'Regional' },
+  { id: 'none', label: 'Not featured' },
+];
+
+// Thresholds offered for the minimum picture count; each is counted as "at least this many"
+export const PICTURE_THRESHOLDS = [1, 10, 25, 50];
+
+// The search results' original window: sales running in the next five days
+export const DEFAULT_WINDOW_DAYS = 5;
+
+export const toLocalDay = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export function defaultResultFilters(now = new Date()): ResultFilters {
+  const last = new Date(now);
+  last.setDate(last.getDate() + DEFAULT_WINDOW_DAYS - 1);
+  return {
+    dateFrom: toLocalDay(now),
+    dateTo: toLocalDay(last),
+    weekdays: [],
+    timesOfDay: [],
+    sources: [],
+    companies: [],
+    statuses: [],
+    featured: [],
+    minPictures: 0,
+    streetAddressOnly: false,
+  };
+}
+
+// How many of the panel's criteria narrow the results, for the "Filters (3)" label; the date range counts when
+// it differs from the default window
+export function activeFilterCount(filters: ResultFilters, now = new Date()): number {
+  const defaults = defaultResultFilters(now);
+  return [
+    filters.dateFrom !== defaults.dateFrom || filters.dateTo !== defaults.dateTo,
+    filters.weekdays.length > 0,
+    filters.timesOfDay.length > 0,
+    filters.sources.length > 0,
+    filters.companies.length > 0,
+    filters.statuses.length > 0,
+    filters.featured.length > 0,
+    filters.minPictures > 0,
+    filters.streetAddressOnly,
+  ].filter(Boolean).length;
+}
+
+const hours = (iso: string) => {
+  const date = new Date(iso);
+  return date.getHours() + date.getMinutes() / 60;
+};
+
+const sessionTimesOfDay = (session: SaleSession): TimeOfDay[] =>
+  session.allDay
+    ? TIMES_OF_DAY.map(time => time.id)
+    : TIMES_OF_DAY.filter(time => hours(session.start) < time.to && hours(session.end) > time.from).map(time => time.id);
+
+// Sessions that are not over and satisfy the date, weekday and time criteria, leaving out `except`
+function matchingSessions(listing: Listing, filters: ResultFilters, now: Date, except?: FilterFacet): SaleSession[] {
+  return (listing.schedule || []).filter(session => {
+    if (new Date(session.end) < now) return false;
+    const day = session.start.slice(0, 10);
+    if (filters.dateFrom && day < filters.dateFrom) return false;
+    if (filters.dateTo && day > filters.dateTo) return false;
+    if (except !== 'weekday' && filters.weekdays.length > 0 && !filters.weekdays.includes(new Date(session.start).getDay())) return false;
+    if (except !== 'timeOfDay' && filters.timesOfDay.length > 0 &&
+      !sessionTimesOfDay(session).some(time => filters.timesOfDay.includes(time))) return false;
+    return true;
+  });
+}
+
+// Schedule criteria only apply to estate sales with a parseable schedule; undated sales are kept, as before
+const hasSchedule = (listing: Listing) => listing.type !== 'thrift_store' && !!listing.schedule?.length;
+
+export function saleStatuses(listing: Listing, now = new Date()): SaleStatus[] {
+  if (listing.type === 'thrift_store') return [];
+  if (!listing.schedule?.length) {
+    // No schedule to work from; trust the card's own badge
+    const status = listing.status?.toLowerCase() || '';
+    return [
+      ...(status.includes('going on now') ? ['going-on-now' as const] : []),
+      ...(status.includes('ends today') ? ['ends-today' as const] : []),
+    ];
+  }
+  const statuses: SaleStatus[] = [];
+  const current = nextSession(listing.schedule, now);
+  if (current && new Date(current.start) <= now) statuses.push('going-on-now');
+  const last = listing.schedule[listing.schedule.length - 1];
+  if (new Date(last.end) >= now && last.end.slice(0, 10) === toLocalDay(now)) statuses.push('ends-today');
+  return statuses;
+}
+
+export const featuredLevel = (listing: Listing): FeaturedLevel =>
+  listing.featured === 'National' ? 'national' : listing.featured === 'Regional' ? 'regional' : 'none';
+
+// The card's picture count, or the photos found on the sale's page when that's more
+export const pictureCount = (listing: Listing) =>
+  Math.max(parseInt(listing.pictureCount || '') || 0, listing.detail?.photoUrls.length || 0);
+
+export const hasStreetAddress = (listing: Listing) => !!(listing.detail?.streetAddress || listing.streetAddress);
+
+// A merged listing counts for every source it was found on
+const listingSourceIds = (listing: Listing) =>
+  [listing.source, ...(listing.mergedFrom || []).map(merged => merged.source)];
+
+// Every criterion but `except`
+function matches(listing: Listing, filters: ResultFilters, now: Date, except?: FilterFacet): boolean {
+  if (hasSchedule(listing) && matchingSessions(listing, filters, now, except).length === 0) return false;
+  if (except !== 'source' && filters.sources.length > 0 &&
+    !listingSourceIds(listing).some(source => filters.sources.includes(source))) return false;
+  if (except !== 'company' && filters.companies.length > 0 && !filters.companies.includes(listing.company || '')) return false;
+  if (except !== 'status' && filters.statuses.length > 0 &&
+    !saleStatuses(listing, now).some(status => filters.statuses.includes(status))) return false;
+  if (except !== 'featured' && filters.featured.length > 0 && !filters.featured.includes(featuredLevel(listing))) return false;
+  if (except !== 'pictures' && pictureCount(listing) < filters.minPictures) return false;
+  if (except !== 'streetAddress' && filters.streetAddressOnly && !hasStreetAddress(listing)) return false;
+  return true;
+}
+
+export function applyResultFilters(listings: Listing[], filters: ResultFilters, now = new Date()): Listing[] {
+  return listings.filter(listing => matches(listing, filters, now));
+}
+
+// The facet values one listing contributes to
+function facetValues(listing: Listing, facet: FilterFacet, filters: ResultFilters, now: Date): string[] {
+  switch (facet) {
+    case 'weekday':
+      return hasSchedule(listing)
+        ? Array.from(new Set(matchingSessions(listing, filters, now, facet).map(session => String(new Date(session.start).getDay()))))
+        : [];
+    case 'timeOfDay':
+      return hasSchedule(listing)
+        ? Array.from(new Set(matchingSessions(listing, filters, now, facet).flatMap(sessionTimesOfDay)))
+        : [];
+    case 'source':
+      return Array.from(new Set(listingSourceIds(listing)));
+    case 'company':
+      return listing.company ? [listing.company] : [];
+    case 'status':
+      return saleStatuses(listing, now);
+    case 'featured':
+      return [featuredLevel(listing)];
+    case 'pictures':
+      return PICTURE_THRESHOLDS.filter(threshold => pictureCount(listing) >= threshold).map(String);
+    case 'streetAddress':
+      return hasStreetAddress(listing) ? ['yes'] : [];
+  }
+}
+
+const FACETS: FilterFacet[] = ['weekday', 'timeOfDay', 'source', 'company', 'status', 'featured', 'pictures', 'streetAddress'];
+
+// Each facet is counted against the listings that pass every other criterion, so a count is what choosing that
+// value (alongside any already chosen in the same facet) would add
+export function facetCounts(listings: Listing[], filters: ResultFilters, now = new Date()): FacetCounts {
+  const counts = Object.fromEntries(FACETS.map(facet => [facet, {}])) as FacetCounts;
+  for (const facet of FACETS) {
+    for (const listing of listings) {
+      if (!matches(listing, filters, now, facet)) continue;
+      for (const value of facetValues(listing, facet, filters, now)) {
+        counts[facet][value] = (counts[facet][value] || 0) + 1;
+      }
+    }
+  }
+  return counts;
+}
@@ -0,0 +1,46 @@
+import type { Listing } from './types.ts';
+
+// Query parameters that differ between links to the same page
+const TRACKING_PARAM = /^(?:utm_.+|fbclid|gclid|mc_cid|mc_eid|ref)$/i;
+
+// One spelling per page: https, lowercase host, no fragment, tracking parameters or trailing slash, sorted query.
+// Empty when the URL doesn't parse.
+export function canonicalListingUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return '';
+    const tracking: string[] = [];
+    parsed.searchParams.forEach((_value, key) => TRACKING_PARAM.test(key) && tracking.push(key));
+    tracking.forEach((key) => parsed.searchParams.delete(key));
+    parsed.searchParams.sort();
+    const path = parsed.pathname.replace(/\/+$/, '') || '/';
+    return `https://${parsed.hostname.toLowerCase()}${path}${parsed.search}`;
+  } catch {
+    return '';
+  }
+}
+
+// cyrb53: a fast 53-bit string hash. Synchronous, unlike crypto.subtle, so ids can be derived while rendering.
+export function hash53(text: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+// The listing's identity everywhere it is referenced: selection, routes, saved data and URLs.
+// Same source and same page give the same id across searches, sorts and views; a listing with no usable link
+// falls back to a hash of what identifies it on the page. URL-safe: "<source>-<base36 hash>".
+export function listingId(listing: Pick<Listing, 'source' | 'url' | 'title' | 'address' | 'date'>): string {
+  const canonical = canonicalListingUrl(listing.url || '');
+  const basis = canonical || [listing.title, listing.address, listing.date]
+    .map((part) => (part || '').trim().toLowerCase().replace(/\s+/g, ' '))
+    .join('|');
+  return `${listing.source}-${hash53(`${listing.source}|${basis}`).toString(36)}`;
+}
@@ -0,0 +1,117 @@
+import type { Listing } from './types.ts';
+
+// Keyword search over listings that are already loaded. A query is words and "quoted phrases", all of which must
+// appear; a leading minus (-reproduction, -"flea market") excludes listings that mention it. Matching ignores case
+// and punctuation between words, and a word matches at the start of a longer one, so "chair" finds "chairs" and
+// "snap-on" finds "Snap On".
+
+export interface KeywordQuery {
+  // Each entry is the words of one term; a phrase has several
+  required: string[][];
+  excluded: string[][];
+}
+
+export interface KeywordMatch {
+  listing: Listing;
+  score: number;
+  // The best hit in text the card doesn't show (the stored markdown or detail page), when the visible text has none
+  snippet?: string;
+}
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+const words = (text: string) => text.toLowerCase().match(WORD) || [];
+
+export function parseKeywordQuery(query: string): KeywordQuery {
+  const parsed: KeywordQuery = { required: [], excluded: [] };
+  for (const [, minus, phrase, word] of query.matchAll(/(-?)(?:"([^"]*)"?|(\S+))/g)) {
+    const termWords = words(phrase ?? word);
+    if (termWords.length === 0) continue;
+    (minus ? parsed.excluded : parsed.required).push(termWords);
+  }
+  return parsed;
+}
+
+export const isEmptyKeywordQuery = (query: KeywordQuery) => query.required.length === 0 && query.excluded.length === 0;
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Words in order with anything but letters and digits between them, starting at a word boundary
+const termSource = (term: string[]) => `(?<![\\p{L}\\p{N}])${term.map(escape).join('[^\\p{L}\\p{N}]+')}`;
+
+// Every required term, for marking hits in displayed text; null when there is nothing to mark
+export function keywordHighlighter(query: KeywordQuery): RegExp | null {
+  if (query.required.length === 0) return null;
+  // Longer terms first, so a phrase is marked whole rather than word by word
+  const sources = [...query.required].sort((a, b) => b.join(' ').length - a.join(' ').length).map(termSource);
+  return new RegExp(sources.join('|'), 'giu');
+}
+
+// How much a hit in each part of a listing counts toward its rank
+const FIELD_WEIGHTS = { title: 5, description: 2, detail: 1.5, markdown: 1 };
+// Repeats past this many in one field add nothing, so a long page can't outrank a title hit
+const MAX_HITS_PER_FIELD = 3;
+
+function searchableFields(listing: Listing): Record<keyof typeof FIELD_WEIGHTS, string> {
+  const detail = listing.detail;
+  return {
+    title: listing.title || '',
+    description: listing.description || '',
+    detail: detail
+      ? [detail.description, detail.terms, detail.directions, detail.parking, detail.paymentMethods.join(' ')].filter(Boolean).join('\n')
+      : '',
+    markdown: listing.markdown || '',
+  };
+}
+
+const SNIPPET_RADIUS = 60;
+
+function snippetAround(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  const body = text.slice(start, end).replace(/[#*_[\]()|>`]+/g, ' ').replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${body}${end < text.length ? '…' : ''}`;
+}
+
+// Listings that have every required term and no excluded one, best first; ties keep their input order.
+// An empty query returns every listing with score 0.
+export function searchListings(listings: Listing[], query: KeywordQuery): KeywordMatch[] {
+  if (isEmptyKeywordQuery(query)) return listings.map(listing => ({ listing, score: 0 }));
+
+  const required = query.required.map(term => new RegExp(termSource(term), 'giu'));
+  const requiredOnce = query.required.map(term => new RegExp(termSource(term), 'iu'));
+  const excluded = query.excluded.map(term => new RegExp(termSource(term), 'iu'));
+
+  const matches: KeywordMatch[] = [];
+  for (const listing of listings) {
+    const fields = searchableFields(listing);
+    const texts = Object.values(fields);
+    if (excluded.some(pattern => texts.some(text => pattern.test(text)))) continue;
+
+    let score = 0;
+    let snippet: string | undefined;
+    const found = required.every(pattern => {
+      let termScore = 0;
+      for (const [field, weight] of Object.entries(FIELD_WEIGHTS) as [keyof typeof FIELD_WEIGHTS, number][]) {
+        const hits = Array.from(fields[field].matchAll(pattern)).slice(0, MAX_HITS_PER_FIELD);
+        termScore += hits.length * weight;
+        if (hits.length > 0 && !snippet && (field === 'detail' || field === 'markdown')) {
+          snippet = snippetAround(fields[field], hits[0].index ?? 0, hits[0][0].length);
+        }
+      }
+      score += termScore;
+      return termScore > 0;
+    });
+    if (!found) continue;
+
+    // Only worth showing when the title and description on the card don't already show a hit
+    const visible = `${fields.title}\n${listing.detail?.description || fields.description}`;
+    const visibleHit = requiredOnce.some(pattern => pattern.test(visible));
+    matches.push({ listing, score, snippet: visibleHit ? undefined : snippet });
+  }
+
+  return matches
+    .map((match, order) => ({ match, order }))
+    .sort((a, b) => b.match.score - a.match.score || a.order - b.order)
+    .map(({ match }) => match);
+}
@@ -0,0 +1,202 @@
+// Field extraction straight from a listing's raw markdown, for listings that arrive without parsed fields.
+// Shared by the sale card, the route dialog and the route map; covered by the parser conformance fixtures.
+
+export interface MarkdownCardFields {
+  title: string;
+  date: string;
+  address: string;
+  company: string;
+  description: string;
+  city: string;
+  state: string;
+}
+
+// Best-effort card fields from a sale's markdown, with display fallbacks ('Estate Sale', 'Date TBD', ...)
+export function extractCardFields(markdown: string): MarkdownCardFields {
+  if (!markdown) return { title: 'Estate Sale', date: 'Date TBD', address: 'Address TBD', company: '', description: 'No details available', city: '', state: '' };
+
+  // Clean the markdown by removing navigation and technical elements
+  const cleanText = markdown
+    .replace(/arrow_back/g, '')
+    .replace(/\\_/g, ' ')
+    .replace(/List of.*?search/g, '')
+    .replace(/https?:\/\/[^\s)]+/g, '') // Remove URLs
+    .replace(/\([^)]*maps\.google[^)]*\)/g, '') // Remove Google Maps references
+    .replace(/\([^)]*https?[^)]*\)/g, '') // Remove URLs in parentheses
+    .replace(/#{1,6}\s*/g, '') // Remove markdown headers
+    .replace(/\n\s*\n/g, '\n') // Remove double newlines
+    .trim();
+
+  const lines = cleanText.split('\n')
+    .map(line => line.trim())
+    .filter(line =>
+      line.length > 0 &&
+      !line.toLowerCase().includes('search') &&
+      !line.toLowerCase().includes('arrow') &&
+      !line.toLowerCase().includes('maps.google') &&
+      !line.includes('q=') &&
+      line.length < 200 // Filter out very long technical lines
+    );
+
+  let title = '';
+  let date = '';
+  let address = '';
+  let company = '';
+  let description = '';
+  let city = '';
+  let state = '';
+
+  // Extract meaningful information
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const lowerLine = line.toLowerCase();
+
+    // Skip technical/navigation content
+    if (lowerLine.includes('http') ||
+        lowerLine.includes('maps') ||
+        lowerLine.includes('search') ||
+        lowerLine.includes('arrow') ||
+        line.length < 5) {
+      continue;
+    }
+
+    // Company/Estate Sale organizer
+    if (!company && (
+      lowerLine.includes('estate sales') ||
+      lowerLine.includes('family affair') ||
+      lowerLine.includes('four star') ||
+      lowerLine.includes('presented by') ||
+      lowerLine.includes('organized by')
+    )) {
+      company = line;
+      continue;
+    }
+
+    // Title - look for sale names or descriptive titles
+    if (!title && (
+      lowerLine.includes('sale') ||
+      lowerLine.includes('estate') ||
+      (line.length > 15 && line.length < 80 && !lowerLine.includes('drive') && !lowerLine.includes('street'))
+    )) {
+      title = line;
+      continue;
+    }
+
+    // Address - look for street addresses with numbers
+    if (!address && (
+      line.match(/\d+\s+[A-Za-z\s]+(dr|drive|st|street|ave|avenue|rd|road|ln|lane|way|circle|ct|court)/i)
+    )) {
+      // Clean up address formatting
+      const cleanAddress = line
+        .replace(/\\\\/g, ' ')
+        .replace(/\s+/g, ' ')
+        .replace(/^\[|\]$/g, '') // Remove leading/trailing brackets
+        .trim();
+
+      address = cleanAddress;
+
+      // Extract city and state from address
+      const cityStateMatch = cleanAddress.match(/([^,]+),\s*([A-Z]{2})/i);
+      if (cityStateMatch) {
+        city = cityStateMatch[1].trim();
+        state = cityStateMatch[2];
+      }
+      continue;
+    }
+
+    // Extract city and state separately if not found in address
+    if (!city && line.match(/([A-Z][a-z\s]+),?\s*([A-Z]{2})/i)) {
+      const cityStateMatch = line.match(/([A-Z][a-z\s]+),?\s*([A-Z]{2})/i);
+      if (cityStateMatch) {
+        city = cityStateMatch[1].trim();
+        state = cityStateMatch[2];
+      }
+      continue;
+    }
+
+    // Date - look for date patterns
+    if (!date && (
+      line.match(/\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+\d{1,2}/i) ||
+      line.match(/\d{1,2}\/\d{1,2}\/\d{2,4}/) ||
+      line.match(/\d{1,2}-\d{1,2}-\d{2,4}/)
+    )) {
+      date = line;
+      continue;
+    }
+
+    // Description - longer meaningful text
+    if (!description && line.length > 20 && line.length < 150 &&
+        !lowerLine.includes('estate sale')) {
+      description = line;
+    }
+  }
+
+  // Fallbacks and cleanup
+  if (!title && company) {
+    title = company.replace(/estate sales?/gi, 'Estate Sale').trim();
+  }
+
+  if (!title) {
+    title = 'Estate Sale';
+  }
+
+  if (!company && title.toLowerCase().includes('estate')) {
+    company = 'Estate Sale';
+  }
+
+  if (!description) {
+    description = 'Estate sale - contact organizer for details.';
+  }
+
+  return {
+    title: title.trim(),
+    date: date.trim() || 'Date TBD',
+    address: address.trim() || '',
+    company: company.trim(),
+    description: description.trim(),
+    city: city.trim(),
+    state: state.trim()
+  };
+}
+
+// A geocodable address: the street address with city/state/zip when present, else just city, state and zip
+export function extractAddressFromMarkdown(markdown: string): string | null {
+  if (!markdown) return null;
+
+  // Look for street address patterns in markdown
+  const streetAddressPattern = /(\d+\s+[^\\,\n]+(?:pkwy|parkway|drive|dr\.?|road|rd\.?|street|st\.?|avenue|ave\.?|lane|ln\.?|court|ct\.?|boulevard|blvd\.?|circle|cir\.?|way|place|pl\.?))\s*\\{2,}\s*\\{2,}\s*([^\\,\n]+),?\s*([A-Z]{2})\s*(\d{5})?/i;
+  const streetMatch = markdown.match(streetAddressPattern);
+
+  if (streetMatch) {
+    const streetAddress = streetMatch[1].trim();
+    const city = streetMatch[2].trim();
+    const state = streetMatch[3];
+    const zip = streetMatch[4] || '';
+
+    let fullAddress = streetAddress + `, ${city}, ${state}`;
+    if (zip) {
+      fullAddress += ` ${zip}`;
+    }
+
+    return fullAddress;
+  }
+
+  // Look for city, state, zip pattern
+  const cityStatePattern = /([A-Z][a-z\s]+),?\s*([A-Z]{2})\s*(\d{5})/i;
+  const cityMatch = markdown.match(cityStatePattern);
+
+  if (cityMatch) {
+    const city = cityMatch[1].trim();
+    const state = cityMatch[2];
+    const zip = cityMatch[3] || '';
+
+    let fullAddress = `${city}, ${state}`;
+    if (zip) {
+      fullAddress += ` ${zip}`;
+    }
+
+    return fullAddress;
+  }
+
+  return null;
+}
@@ -0,0 +1,199 @@
+import { CRAIGSLIST_SOURCE_ID } from './craigslist.ts';
+import type { Listing, MergedListing } from './types.ts';
+
+// Entity resolution across sources: the same sale posted on estatesales.net and Craigslist becomes one record.
+// Two listings are the same sale when nothing rules it out (different house numbers, far-apart pins, different
+// towns, sale days that never overlap) and enough points to it: the same place plus overlapping days or a similar
+// title, or overlapping days plus a near-identical title in the same town. Listings from one source are never
+// merged with each other; a source doesn't list one sale twice under different links.
+
+// Pins this close are the same house (Craigslist pins are rounded, so allow a little slack); further apart is not
+const SAME_PLACE_KM = 0.25;
+const DIFFERENT_PLACE_KM = 2;
+
+// Title token overlap (Dice coefficient) that supports a match found by place, and that makes one on its own
+const SUPPORTING_TITLE_SIMILARITY = 0.3;
+const MATCHING_TITLE_SIMILARITY = 0.6;
+
+const KM_PER_MILE = 1.609344;
+
+// Words every sale title shares, which say nothing about which sale it is
+const TITLE_STOPWORDS = new Set([
+  'a', 'an', 'and', 'the', 'of', 'in', 'at', 'on', 'for', 'by', 'with', 'to',
+  'estate', 'sale', 'sales', 'moving', 'garage', 'yard', 'huge', 'big', 'great', 'everything', 'must', 'go',
+]);
+
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  street: 'st', avenue: 'ave', road: 'rd', drive: 'dr', lane: 'ln', court: 'ct', boulevard: 'blvd',
+  place: 'pl', circle: 'cir', parkway: 'pkwy', highway: 'hwy', terrace: 'ter', trail: 'trl',
+  north: 'n', south: 's', east: 'e', west: 'w',
+};
+
+const words = (text: string) => text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean);
+
+interface Features {
+  listing: Listing;
+  titleTokens: Set<string>;
+  // Leading house number and the street words after it, when the address has a street part
+  houseNumber: string | null;
+  streetTokens: Set<string>;
+  town: string;
+  days: Set<string>;
+  coordinates: { lat: number; lng: number } | null;
+}
+
+function featuresOf(listing: Listing): Features {
+  const street = listing.streetAddress || listing.detail?.streetAddress || listing.address.split(',')[0] || '';
+  const streetWords = words(street).map((word) => STREET_ABBREVIATIONS[word] || word);
+  const hasNumber = /^\d+[a-z]?$/.test(streetWords[0] || '');
+  // Craigslist cards carry their neighborhood as the description until the posting replaces it with the body
+  const neighborhood = listing.source === CRAIGSLIST_SOURCE_ID && listing.description.length <= 40 ? listing.description : '';
+  return {
+    listing,
+    titleTokens: new Set(words(listing.title).filter((word) => !TITLE_STOPWORDS.has(word))),
+    houseNumber: hasNumber ? streetWords[0] : null,
+    streetTokens: new Set(hasNumber ? streetWords.slice(1) : []),
+    town: words(listing.city || listing.detail?.city || neighborhood).join(' '),
+    days: new Set((listing.schedule || []).map((session) => session.start.slice(0, 10))),
+    coordinates: listing.latitude != null && listing.longitude != null ? { lat: listing.latitude, lng: listing.longitude } : null,
+  };
+}
+
+const overlap = <T>(a: Set<T>, b: Set<T>) => Array.from(a).filter((item) => b.has(item)).length;
+
+const diceSimilarity = (a: Set<string>, b: Set<string>) =>
+  a.size + b.size === 0 ? 0 : (2 * overlap(a, b)) / (a.size + b.size);
+
+function distanceKm(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
+
+// Why `b` is the same sale as `a`, or null when it isn't
+function matchReasons(a: Features, b: Features): string[] | null {
+  const reasons: string[] = [];
+
+  let samePlace = false;
+  if (a.coordinates && b.coordinates) {
+    const km = distanceKm(a.coordinates, b.coordinates);
+    if (km > DIFFERENT_PLACE_KM) return null;
+    if (km <= SAME_PLACE_KM) {
+      samePlace = true;
+      reasons.push(`${(km / KM_PER_MILE).toFixed(1)} mi apart`);
+    }
+  }
+  if (a.houseNumber && b.houseNumber) {
+    if (a.houseNumber !== b.houseNumber) return null;
+    if (overlap(a.streetTokens, b.streetTokens) > 0) {
+      samePlace = true;
+      reasons.push('same street address');
+    }
+  }
+  let sameTown = false;
+  if (a.town && b.town) {
+    sameTown = a.town === b.town || a.town.includes(b.town) || b.town.includes(a.town);
+    if (!sameTown) return null;
+    if (!samePlace) reasons.push('same town');
+  }
+
+  let daysOverlap = false;
+  if (a.days.size > 0 && b.days.size > 0) {
+    daysOverlap = overlap(a.days, b.days) > 0;
+    if (!daysOverlap) return null;
+    reasons.push('sale dates overlap');
+  }
+
+  const titleSimilarity = diceSimilarity(a.titleTokens, b.titleTokens);
+  if (titleSimilarity >= SUPPORTING_TITLE_SIMILARITY) reasons.push(`titles ${Math.round(titleSimilarity * 100)}% alike`);
+
+  const matched = samePlace
+    ? daysOverlap || titleSimilarity >= SUPPORTING_TITLE_SIMILARITY
+    : sameTown && daysOverlap && titleSimilarity >= MATCHING_TITLE_SIMILARITY;
+  return matched ? reasons : null;
+}
+
+// How much a listing has to show; the richest listing in a cluster is the one the others merge into
+const richness = (listing: Listing) =>
+  (listing.detail ? 4 : 0) + (listing.streetAddress || /^\d/.test(listing.address) ? 2 : 0) +
+  (listing.schedule?.length ? 1 : 0) + (listing.imageUrl ? 1 : 0);
+
+function mergeCluster(members: { features: Features; reasons: string[] }[]): Listing {
+  const [primary, ...others] = [...members].sort((a, b) => richness(b.features.listing) - richness(a.features.listing));
+  const merged: Listing = { ...primary.features.listing };
+
+  const mergedFrom: MergedListing[] = others.map(({ features: { listing }, reasons }) => {
+    // Fill what the primary listing lacks; its own values always win
+    if (!merged.address && listing.address) merged.address = listing.address;
+    if (merged.latitude == null && listing.latitude != null && listing.longitude != null) {
+      merged.latitude = listing.latitude;
+      merged.longitude = listing.longitude;
+    }
+    if (!merged.schedule?.length && listing.schedule?.length) merged.schedule = listing.schedule;
+    if (!merged.imageUrl && listing.imageUrl) merged.imageUrl = listing.imageUrl;
+    return {
+      id: listing.id,
+      source: listing.source,
+      title: listing.title,
+      url: listing.url,
+      ...(listing.imageUrl ? { imageUrl: listing.imageUrl } : {}),
+      photoUrls: listing.detail?.photoUrls || [],
+      reasons,
+    };
+  });
+  if (mergedFrom.length > 0) merged.mergedFrom = [...(primary.features.listing.mergedFrom || []), ...mergedFrom];
+  return merged;
+}
+
+// One listing per sale, in the order each sale first appears. Listings sharing an id are the same listing and
+// collapse to the last copy (the most enriched one); thrift stores are passed through as they are.
+export function resolveListings(listings: Listing[]): Listing[] {
+  const byId = new Map<string, Listing>();
+  listings.forEach((listing) => byId.set(listing.id, listing));
+  const unique = Array.from(byId.values());
+
+  const sales = unique.filter((listing) => listing.type !== 'thrift_store').map(featuresOf);
+  // Union-find over sales; each cluster remembers which sources it already holds
+  const parent = sales.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  const clusterSources = sales.map((features) => new Set([features.listing.source]));
+  const reasonsFor = new Map<number, string[]>();
+
+  for (let i = 0; i < sales.length; i++) {
+    for (let j = i + 1; j < sales.length; j++) {
+      const ri = root(i);
+      const rj = root(j);
+      if (ri === rj || overlap(clusterSources[ri], clusterSources[rj]) > 0) continue;
+      const reasons = matchReasons(sales[i], sales[j]);
+      if (!reasons) continue;
+      parent[rj] = ri;
+      clusterSources[rj].forEach((source) => clusterSources[ri].add(source));
+      // Either side may end up merged into the other, so both keep the first link that tied them in
+      if (!reasonsFor.has(i)) reasonsFor.set(i, reasons);
+      if (!reasonsFor.has(j)) reasonsFor.set(j, reasons);
+    }
+  }
+
+  const clusters = new Map<number, { features: Features; reasons: string[] }[]>();
+  sales.forEach((features, i) => {
+    const members = clusters.get(root(i)) || [];
+    members.push({ features, reasons: reasonsFor.get(i) || [] });
+    clusters.set(root(i), members);
+  });
+
+  const mergedById = new Map<string, Listing>();
+  clusters.forEach((members) => {
+    const merged = mergeCluster(members);
+    members.forEach(({ features }) => mergedById.set(features.listing.id, merged));
+  });
+
+  const emitted = new Set<Listing>();
+  return unique.flatMap((listing) => {
+    const resolved = mergedById.get(listing.id) || listing;
+    if (emitted.has(resolved)) return [];
+    emitted.add(resolved);
+    return [resolved];
+  });
+}
@@ -0,0 +1,76 @@
+export interface SaleType {
+  id: string;
+  label: string;
+  category: string;
+  // Card/title wording that identifies the type, most specific first
+  keywords: RegExp[];
+}
+
+export const DEFAULT_SALE_TYPE = 'estate-sales';
+
+// Ids double as estatesales.net's type path segments ("/MI/Troy/48084/moving-sales")
+export const SALE_TYPES: SaleType[] = [
+  // Estate Sales
+  { id: 'estate-sales', label: 'Estate Sales', category: 'Estate Sales', keywords: [/\bestate sale/i] },
+  { id: 'moving-sales', label: 'Moving Sales', category: 'Estate Sales', keywords: [/\bmoving sale/i] },
+  { id: 'moved-offsite-warehouse', label: 'Moved Offsite To Warehouse', category: 'Estate Sales', keywords: [/moved offsite to (?:a )?warehouse/i, /\bwarehouse sale/i] },
+  { id: 'by-appointment', label: 'By Appointment', category: 'Estate Sales', keywords: [/\bby appointment\b/i] },
+  { id: 'online-estate-sales', label: 'Online Estate Sales', category: 'Estate Sales', keywords: [/\bonline estate sale/i] },
+
+  // Auctions
+  { id: 'auctions', label: 'Auctions', category: 'Auctions', keywords: [/\bauction\b/i] },
+  { id: 'auction-house', label: 'Auction House', category: 'Auctions', keywords: [/\bauction house\b/i] },
+  { id: 'online-only-auctions', label: 'Online Only Auctions', category: 'Auctions', keywords: [/\bonline[- ]only auction/i, /\bonline auction/i] },
+
+  // Additional Liquidations
+  { id: 'business-closings', label: 'Business Closings', category: 'Additional Liquidations', keywords: [/\bbusiness closing/i, /\bgoing out of business\b/i, /\bstore closing/i] },
+  { id: 'moved-offsite-store', label: 'Moved Offsite To Store', category: 'Additional Liquidations', keywords: [/moved offsite to (?:a |our )?store/i] },
+  { id: 'outside-sales', label: 'Outside Sales', category: 'Additional Liquidations', keywords: [/\boutside sale/i, /\bgarage sale/i, /\byard sale/i, /\bbarn sale/i] },
+  { id: 'single-item-collections', label: 'Single Item Type Collections', category: 'Additional Liquidations', keywords: [/single item type collection/i] },
+  { id: 'buyouts-cleanouts', label: 'Buyouts Or Cleanouts', category: 'Additional Liquidations', keywords: [/\bbuyouts?\b/i, /\bclean-?outs?\b/i] },
+  { id: 'demolition-sales', label: 'Demolition Sales', category: 'Additional Liquidations', keywords: [/\bdemolition sale/i, /\bdemo sale/i] },
+];
+
+// When several types match, the more specific one wins (an "online only auction" is also an "auction")
+const MATCH_ORDER = [
+  'online-only-auctions', 'auction-house', 'online-estate-sales', 'moved-offsite-warehouse', 'moved-offsite-store',
+  'demolition-sales', 'business-closings', 'single-item-collections', 'buyouts-cleanouts', 'by-appointment',
+  'moving-sales', 'outside-sales', 'auctions', 'estate-sales',
+];
+
+export const saleTypeLabel = (id?: string) => SALE_TYPES.find((type) => type.id === id)?.label || 'Estate Sales';
+
+// Sale type from a type-specific URL path segment, if the URL carries one
+export function saleTypeFromUrl(url: string): string | null {
+  const path = url.replace(/^https?:\/\/[^/]+/, '').replace(/[?#].*$/, '');
+  const segments = path.split('/').filter(Boolean).map((segment) => segment.toLowerCase());
+  return SALE_TYPES.find((type) => segments.includes(type.id))?.id || null;
+}
+
+function matchSaleType(text: string): string | null {
+  for (const id of MATCH_ORDER) {
+    const type = SALE_TYPES.find((t) => t.id === id);
+    if (type?.keywords.some((keyword) => keyword.test(text))) return type.id;
+  }
+  return null;
+}
+
+// Best guess from a listing's title, then its card/body text; plain estate sales are the default.
+// The title goes first because card text also carries company names like "Smith Auctions LLC".
+export function classifySaleType(title: string, text = ''): string {
+  return matchSaleType(title) || matchSaleType(text.replace(/Listed by [^\n\\]+/g, '')) || DEFAULT_SALE_TYPE;
+}
+
+// The type-specific search page for a location URL; the default type searches the plain location page
+export function saleTypeSearchUrl(locationUrl: string, typeId: string): string {
+  if (typeId === DEFAULT_SALE_TYPE) return locationUrl;
+  const [path, query] = locationUrl.split('?');
+  return `${path.replace(/\/$/, '')}/${typeId}${query ? `?${query}` : ''}`;
+}
+
+// The plain location page already lists every type, so type pages are only needed for narrower selections
+export function saleTypeSearchUrls(locationUrl: string, typeIds: string[] = []): string[] {
+  const known = typeIds.filter((id) => SALE_TYPES.some((type) => type.id === id));
+  if (known.length === 0 || known.includes(DEFAULT_SALE_TYPE)) return [locationUrl];
+  return known.map((id) => saleTypeSearchUrl(locationUrl, id));
+}
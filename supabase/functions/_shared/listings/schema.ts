@@ -0,0 +1,164 @@
+import { z } from 'zod';
+import { CRAIGSLIST_SOURCE_ID } from './craigslist.ts';
+import { listingId } from './identity.ts';
+import { DEFAULT_SALE_TYPE } from './saleTypes.ts';
+import type { Listing, RawListing } from './types.ts';
+
+// Runtime check for Listing where scraped or third-party data enters the app. A field that can be salvaged is
+// repaired (trimmed, coerced, or dropped when optional); a listing with no title or link to open is rejected.
+
+// Reported in ParseStats.blocksSkipped for listings the schema rejected
+export const SKIP_INVALID = 'failed validation';
+
+// Malformed optional fields are dropped instead of failing the whole listing
+const optional = <T extends z.ZodTypeAny>(schema: T) => schema.optional().catch(undefined);
+
+// Keeps the entries that parse and drops the rest
+const listOf = <T extends z.ZodTypeAny>(item: T) =>
+  z.array(z.unknown()).transform((items) => items.flatMap((entry) => {
+    const parsed = item.safeParse(entry);
+    return parsed.success ? [parsed.data as z.infer<T>] : [];
+  }));
+
+const text = z.preprocess((value) => (typeof value === 'number' ? String(value) : value), z.string().trim());
+const numeric = z.preprocess((value) => (typeof value === 'string' && value.trim() ? Number(value) : value), z.number().finite());
+const httpUrl = z.string().trim().url().refine((url) => /^https?:\/\//i.test(url), 'Expected an http(s) URL');
+const localIso = z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2})?$/, 'Expected a local ISO date-time');
+
+export const saleSessionSchema = z.object({
+  start: localIso,
+  end: localIso,
+  allDay: optional(z.boolean()),
+});
+
+export const saleDaySchema = z.object({
+  weekday: optional(text),
+  date: text.pipe(z.string().min(1)),
+  hours: text.catch(''),
+});
+
+export const estateSaleDetailSchema = z.object({
+  fullAddress: optional(text),
+  streetAddress: optional(text),
+  city: optional(text),
+  state: optional(text),
+  zipCode: optional(text),
+  days: listOf(saleDaySchema).catch([]),
+  description: text.catch(''),
+  terms: text.catch(''),
+  paymentMethods: listOf(text).catch([]),
+  directions: text.catch(''),
+  parking: text.catch(''),
+  photoUrls: listOf(httpUrl).catch([]),
+});
+
+export const mergedListingSchema = z.object({
+  id: text,
+  source: text,
+  title: text,
+  url: httpUrl,
+  imageUrl: optional(httpUrl),
+  photoUrls: listOf(httpUrl).catch([]),
+  reasons: listOf(text).catch([]),
+});
+
+export const listingSchema = z.object({
+  source: text.pipe(z.string().min(1, 'Listing has no source')),
+  type: z.enum(['estate_sale', 'thrift_store']).catch('estate_sale'),
+  title: text.pipe(z.string().min(1, 'Listing has no title')),
+  url: httpUrl,
+  address: text.catch(''),
+  description: text.catch(''),
+  date: optional(text),
+  time: optional(text),
+  status: optional(text),
+  company: optional(text),
+  distance: optional(text),
+  city: optional(text),
+  state: optional(text),
+  zipCode: optional(text),
+  streetAddress: optional(text),
+  imageUrl: optional(httpUrl),
+  featured: optional(text),
+  pictureCount: optional(text),
+  lastModified: optional(text),
+  markdown: optional(z.string()),
+  sourceURL: optional(httpUrl),
+  businessHours: optional(text),
+  phone: optional(text),
+  rating: optional(numeric.pipe(z.number().min(0).max(5))),
+  detail: optional(estateSaleDetailSchema),
+  schedule: optional(listOf(saleSessionSchema)),
+  postedAt: optional(localIso),
+  firstSeenAt: optional(z.string().datetime({ offset: true })),
+  saleType: optional(text),
+  latitude: optional(numeric.pipe(z.number().min(-90).max(90))),
+  longitude: optional(numeric.pipe(z.number().min(-180).max(180))),
+  mergedFrom: optional(listOf(mergedListingSchema)),
+});
+
+export const estateSaleListingSchema = listingSchema.extend({
+  type: z.literal('estate_sale').catch('estate_sale'),
+  saleType: text.pipe(z.string().min(1)).catch(DEFAULT_SALE_TYPE),
+});
+
+export const craigslistListingSchema = estateSaleListingSchema.extend({
+  source: z.literal(CRAIGSLIST_SOURCE_ID),
+  company: z.literal('Craigslist').catch('Craigslist'),
+});
+
+export const thriftStoreListingSchema = listingSchema.extend({
+  type: z.literal('thrift_store'),
+  businessHours: text.catch('Hours not available'),
+  phone: text.catch(''),
+  rating: numeric.pipe(z.number().min(0).max(5)).catch(0),
+});
+
+const schemaFor = (raw: unknown) => {
+  const { source, type } = (raw && typeof raw === 'object' ? raw : {}) as { source?: unknown; type?: unknown };
+  if (type === 'thrift_store') return thriftStoreListingSchema;
+  if (source === CRAIGSLIST_SOURCE_ID) return craigslistListingSchema;
+  return estateSaleListingSchema;
+};
+
+// Fills what one field implies about another: a lone coordinate can't be placed, Craigslist links are their own
+// source, and the id follows from source and URL (any id the input carried is recomputed)
+function completeListing(listing: RawListing): Listing {
+  const repaired: Listing = { ...listing, id: listingId(listing) };
+  if (repaired.latitude === undefined || repaired.longitude === undefined) {
+    delete repaired.latitude;
+    delete repaired.longitude;
+  }
+  if (repaired.source === CRAIGSLIST_SOURCE_ID && !repaired.sourceURL) {
+    repaired.sourceURL = repaired.url;
+  }
+  // Optional fields the schema dropped come back as explicit undefined; keep the object as lean as the parsers make it
+  Object.keys(repaired).forEach((key) => repaired[key as keyof Listing] === undefined && delete repaired[key as keyof Listing]);
+  return repaired;
+}
+
+export interface ListingValidation {
+  listing?: Listing;
+  // "path: message" for each problem that made the listing unusable
+  issues: string[];
+}
+
+export function validateListing(raw: unknown): ListingValidation {
+  const parsed = schemaFor(raw).safeParse(raw);
+  if (!parsed.success) {
+    return { issues: parsed.error.issues.map((issue) => `${issue.path.join('.') || '(listing)'}: ${issue.message}`) };
+  }
+  return { listing: completeListing(parsed.data as RawListing), issues: [] };
+}
+
+// Repaired listings in their original order, plus what was rejected and why
+export function validateListings(raw: unknown[]): { listings: Listing[]; rejected: { raw: unknown; issues: string[] }[] } {
+  const listings: Listing[] = [];
+  const rejected: { raw: unknown; issues: string[] }[] = [];
+  for (const entry of raw) {
+    const { listing, issues } = validateListing(entry);
+    if (listing) listings.push(listing);
+    else rejected.push({ raw: entry, issues });
+  }
+  return { listings, rejected };
+}
@@ -0,0 +1,126 @@
+// One listing, whichever source it came from: what search-sales returns, every source adapter produces and every
+// component renders. Fields only some sources fill are optional here; the extensions below pin them per source.
+// listingSchema (schema.ts) checks and repairs listings against this shape before they leave an edge function.
+// RawListing is what the parsers build; validateListing turns it into a Listing, which always has its id.
+export interface RawListing {
+  source: string;
+  type: 'estate_sale' | 'thrift_store';
+  title: string;
+  url: string;
+  address: string;
+  description: string;
+  date?: string;
+  time?: string;
+  status?: string;
+  company?: string;
+  distance?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  streetAddress?: string;
+  imageUrl?: string;
+  featured?: string;
+  pictureCount?: string;
+  lastModified?: string;
+  markdown?: string;
+  sourceURL?: string;
+  businessHours?: string;
+  phone?: string;
+  rating?: number;
+  // Stable "<source>-<hash>" id from the source and canonical URL (see identity.ts); set when the listing is validated,
+  // recomputed if the input already carried one
+  id?: string;
+  // When any search first returned this sale (the `sales` table), ISO; set by search-sales when persistence is on
+  firstSeenAt?: string;
+  detail?: EstateSaleDetail;
+  schedule?: SaleSession[];
+  // When the source itself published the listing (Craigslist posting time), floating local ISO
+  postedAt?: string;
+  // One of SALE_TYPES' ids ("moving-sales", "online-only-auctions", ...); unset for thrift stores
+  saleType?: string;
+  // Coordinates the source embeds with the listing, when it has a map pin
+  latitude?: number;
+  longitude?: number;
+  // Other sources' listings for the same sale, folded into this one by resolveListings (resolve.ts)
+  mergedFrom?: MergedListing[];
+}
+
+export interface Listing extends RawListing {
+  id: string;
+}
+
+// A listing merged into another as the same sale; keeps its own link and photos and says why it matched
+export interface MergedListing {
+  id: string;
+  source: string;
+  title: string;
+  url: string;
+  imageUrl?: string;
+  photoUrls: string[];
+  // "same street address", "sale dates overlap", "titles 70% alike", ...
+  reasons: string[];
+}
+
+// estatesales.net sale cards, and Craigslist postings below; detail enrichment adds `detail` and a fuller `schedule`
+export interface EstateSaleListing extends RawListing {
+  type: 'estate_sale';
+  saleType: string;
+}
+
+// Craigslist search results carry no company or street address; posting time and coordinates come from the posting
+export interface CraigslistListing extends EstateSaleListing {
+  source: 'craigslist';
+  company: 'Craigslist';
+  sourceURL: string;
+}
+
+// Google Places results for nearby thrift stores
+export interface ThriftStoreListing extends RawListing {
+  type: 'thrift_store';
+  businessHours: string;
+  phone: string;
+  rating: number;
+}
+
+// What a parser saw on one page, so an empty result can be told apart from a page it no longer understands
+export interface ParseStats {
+  blocksFound: number;
+  // Skip reason -> how many blocks were dropped for it
+  blocksSkipped: Record<string, number>;
+  listingsProduced: number;
+}
+
+export interface ParseResult<T extends RawListing = RawListing> {
+  listings: T[];
+  stats: ParseStats;
+}
+
+// One day of a sale; times are floating local ISO strings ("2025-10-17T09:00:00")
+export interface SaleSession {
+  start: string;
+  end: string;
+  // Set when the listing gave a date but no hours
+  allDay?: boolean;
+}
+
+export interface SaleDay {
+  weekday?: string;
+  date: string;
+  hours: string;
+}
+
+// Fields pulled from a sale's own page during the optional detail enrichment pass
+export interface EstateSaleDetail {
+  fullAddress?: string;
+  streetAddress?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  days: SaleDay[];
+  description: string;
+  terms: string;
+  paymentMethods: string[];
+  directions: string;
+  parking: string;
+  photoUrls: string[];
+}
@@ -0,0 +1,72 @@
+// Minimal robots.txt support: the `*` group's Allow/Disallow rules, longest match wins, `*` and `$` wildcards
+interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+}
+
+const rulesByOrigin = new Map<string, Promise<RobotsRules>>();
+
+function parseRobots(text: string): RobotsRules {
+  const rules: RobotsRules = { allow: [], disallow: [] };
+  let inStarGroup = false;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const match = line.match(/^([A-Za-z-]+)\s*:\s*(.*)$/);
+    if (!match) continue;
+    const [, field, value] = match;
+
+    if (field.toLowerCase() === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      inStarGroup = (lastWasAgent && inStarGroup) || value.trim() === '*';
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+    if (!inStarGroup || !value) continue;
+
+    if (field.toLowerCase() === 'disallow') rules.disallow.push(value.trim());
+    if (field.toLowerCase() === 'allow') rules.allow.push(value.trim());
+  }
+
+  return rules;
+}
+
+const toRegExp = (pattern: string) =>
+  new RegExp('^' + pattern.replace(/[.+?^{}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\\\$$/, '$'));
+
+const longestMatch = (patterns: string[], path: string) =>
+  patterns.filter((p) => toRegExp(p).test(path)).reduce((longest, p) => Math.max(longest, p.length), -1);
+
+async function loadRules(origin: string): Promise<RobotsRules> {
+  try {
+    const response = await fetch(`${origin}/robots.txt`, { signal: AbortSignal.timeout(5000) });
+    if (!response.ok) return { allow: [], disallow: [] };
+    return parseRobots(await response.text());
+  } catch (error) {
+    // An unreachable robots.txt is treated as "no rules", the same as a missing one
+    console.warn(`Could not load robots.txt for ${origin}:`, error);
+    return { allow: [], disallow: [] };
+  }
+}
+
+// Rules are fetched once per origin for the lifetime of the function instance. A URL that can't be parsed has no
+// robots.txt to consult, so it is allowed and left to fail (or not) on its own fetch.
+export async function isAllowedByRobots(url: string): Promise<boolean> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return true;
+  }
+
+  let rules = rulesByOrigin.get(parsed.origin);
+  if (!rules) {
+    rules = loadRules(parsed.origin);
+    rulesByOrigin.set(parsed.origin, rules);
+  }
+  const { allow, disallow } = await rules;
+  const path = parsed.pathname + parsed.search;
+  return longestMatch(allow, path) >= longestMatch(disallow, path);
+}
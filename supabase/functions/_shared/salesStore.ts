@@ -0,0 +1,46 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.53.0';
+import type { Listing } from './listings/types.ts';
+
+// A card shows how many photos a sale has; Craigslist cards don't, but their postings list them
+const photoCount = (listing: Listing): number | null => {
+  const fromCard = parseInt(listing.pictureCount || '', 10);
+  if (!Number.isNaN(fromCard)) return fromCard;
+  return listing.detail ? listing.detail.photoUrls.length : null;
+};
+
+// Upserts every listing into `sales` and returns them with `firstSeenAt` from the table. Changes to the tracked
+// fields are logged to sale_revisions by the table's trigger. Failures are logged and the listings passed through
+// unchanged, so a broken table never breaks a search.
+export async function recordSales(db: SupabaseClient | null, listings: Listing[], seenAt = new Date()): Promise<Listing[]> {
+  const rows = listings.filter((listing) => listing.id).map((listing) => {
+    // The card markdown is a parsing input, not part of the sale
+    const { markdown: _card, ...payload } = listing;
+    return {
+      id: listing.id,
+      source: listing.source,
+      url: listing.url,
+      title: listing.title,
+      address: listing.address,
+      address_detailed: !!listing.detail?.fullAddress,
+      sale_dates: listing.date || null,
+      photo_count: photoCount(listing),
+      last_modified: listing.lastModified || null,
+      payload,
+      // Kept from the first sighting by the table's trigger
+      first_seen_at: seenAt.toISOString(),
+      last_seen_at: seenAt.toISOString(),
+    };
+  });
+  if (!db || rows.length === 0) return listings;
+
+  // The same sale can sit on two type pages; Postgres refuses to upsert one row twice in a statement
+  const unique = Array.from(new Map(rows.map((row) => [row.id, row])).values());
+  const { data, error } = await db.from('sales').upsert(unique, { onConflict: 'id' }).select('id, first_seen_at');
+  if (error) {
+    console.error('sales upsert failed:', error);
+    return listings;
+  }
+
+  const firstSeen = new Map<string, string>((data || []).map((row: { id: string; first_seen_at: string }) => [row.id, row.first_seen_at]));
+  return listings.map((listing) => firstSeen.has(listing.id) ? { ...listing, firstSeenAt: firstSeen.get(listing.id) } : listing);
+}
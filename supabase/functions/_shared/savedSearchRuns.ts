@@ -0,0 +1,151 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.53.0';
+import { geocodeWithCache } from './geocodeCache.ts';
+import { createGeocodeProvider } from './geocodeProviders.ts';
+import { ALL_DISTANCES_RADIUS, listingGeocodeQuery, milesBetween, searchOriginQuery } from './listings/distance.ts';
+import {
+  hasNothingToRun,
+  savedSearchMatches,
+  savedSearchRunSources,
+  withinSavedRadius,
+  type SavedSearch,
+} from './savedSearches.ts';
+import type { Listing } from './listings/types.ts';
+
+// Re-runs saved searches through search-sales and records the sales each one hasn't matched before.
+// Used by saved-searches (on save and "run now") and by the scheduled run-saved-searches.
+
+export interface SavedSearchRun {
+  savedSearchId: string;
+  // Sales the search matched this run
+  matched: number;
+  // Of those, the ones it had never matched before
+  newMatches: number;
+  // Set when search-sales failed or some of its sources did; the run still records what came back
+  error?: string;
+}
+
+interface SearchSalesResponse {
+  success: boolean;
+  error?: string;
+  listings?: Listing[];
+  sources?: { sourceId: string; ok: boolean; error?: string }[];
+}
+
+// Calls search-sales the way the browser does, with the service key; saved searches skip detail pages to keep
+// a weekly run of several searches inside the scrape budget
+async function searchSales(search: SavedSearch): Promise<SearchSalesResponse> {
+  const url = Deno.env.get('SUPABASE_URL');
+  const key = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!url || !key) {
+    return { success: false, error: 'SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY missing' };
+  }
+
+  const sources = savedSearchRunSources(search.sources);
+  const response = await fetch(`${url}/functions/v1/search-sales`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${key}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      location: search.location,
+      radius: search.radius,
+      sources: sources.length > 0 ? sources : undefined,
+      saleTypes: search.saleTypes,
+    }),
+  });
+  const body = await response.json().catch(() => null);
+  if (!body) return { success: false, error: `search-sales answered ${response.status}` };
+  return body;
+}
+
+// Listing id -> straight-line miles from the search's location, placed through the geocode cache like the results
+// page places them. Null when the location itself can't be placed, so the radius can't be applied.
+async function listingMiles(
+  db: SupabaseClient,
+  search: SavedSearch,
+  listings: Listing[]
+): Promise<Record<string, number> | null> {
+  const geocoder = createGeocodeProvider();
+  if (!geocoder) return null;
+
+  const unpinned = listings.filter((listing) => listing.latitude == null || listing.longitude == null);
+  const queries = unpinned.map(listingGeocodeQuery);
+  const [origin, ...places] = await geocodeWithCache(geocoder, db, [searchOriginQuery(search.location), ...queries]);
+  if (!origin) return null;
+
+  const miles: Record<string, number> = {};
+  listings.forEach((listing) => {
+    if (listing.latitude != null && listing.longitude != null) {
+      miles[listing.id] = milesBetween(origin, { lat: listing.latitude, lng: listing.longitude });
+    }
+  });
+  unpinned.forEach((listing, i) => {
+    const place = queries[i] ? places[i] : null;
+    if (place) miles[listing.id] = milesBetween(origin, place);
+  });
+  return miles;
+}
+
+// Runs one saved search and stores its matches. With `baseline` (the first run, when the search is saved) the
+// matches are recorded as already known, so only sales listed after the search was saved reach the inbox.
+export async function runSavedSearch(
+  db: SupabaseClient,
+  search: SavedSearch,
+  { baseline = false }: { baseline?: boolean } = {}
+): Promise<SavedSearchRun> {
+  const run: SavedSearchRun = { savedSearchId: search.id, matched: 0, newMatches: 0 };
+
+  try {
+    const result: SearchSalesResponse = hasNothingToRun(search.sources)
+      ? { success: false, error: 'none of its sources can be re-run (only EstateSales.net and Craigslist can)' }
+      : await searchSales(search);
+    if (!result.success) {
+      run.error = result.error || 'search-sales failed';
+    } else {
+      const failed = (result.sources || []).filter((source) => !source.ok);
+      if (failed.length > 0) {
+        run.error = failed.map((source) => `${source.sourceId}: ${source.error || 'failed'}`).join('; ');
+      }
+
+      let matches = savedSearchMatches(search, result.listings || []).filter((listing) => listing.id);
+      if (search.radius < ALL_DISTANCES_RADIUS && matches.length > 0) {
+        const miles = await listingMiles(db, search, matches);
+        if (miles) {
+          matches = withinSavedRadius(search, matches, miles);
+        } else {
+          const note = 'the search location could not be geocoded, so the radius was not applied';
+          run.error = run.error ? `${run.error}; ${note}` : note;
+        }
+      }
+      run.matched = matches.length;
+      run.newMatches = await recordMatches(db, search.id, matches, baseline);
+    }
+  } catch (error) {
+    run.error = error instanceof Error ? error.message : 'Saved search run failed';
+  }
+
+  const { error } = await db
+    .from('saved_searches')
+    .update({ last_run_at: new Date().toISOString(), last_run_error: run.error || null })
+    .eq('id', search.id);
+  if (error) console.error('saved_searches update failed:', error);
+
+  return run;
+}
+
+// Inserts the matches this search doesn't have yet and answers how many that was
+async function recordMatches(db: SupabaseClient, savedSearchId: string, matches: Listing[], baseline: boolean) {
+  if (matches.length === 0) return 0;
+
+  const rows = matches.map((listing) => {
+    // The card markdown is a parsing input, not part of the sale
+    const { markdown: _card, ...snapshot } = listing;
+    return { saved_search_id: savedSearchId, sale_id: listing.id, listing: snapshot, baseline };
+  });
+  const unique = Array.from(new Map(rows.map((row) => [row.sale_id, row])).values());
+
+  const { data, error } = await db
+    .from('saved_search_matches')
+    .upsert(unique, { onConflict: 'saved_search_id,sale_id', ignoreDuplicates: true })
+    .select('id');
+  if (error) throw new Error(`saved_search_matches insert failed: ${error.message}`);
+  return baseline ? 0 : (data || []).length;
+}
@@ -0,0 +1,85 @@
+import { CRAIGSLIST_SOURCE_ID } from './listings/craigslist.ts';
+import { ESTATESALES_SOURCE_ID } from './listings/estatesales.ts';
+import { ALL_DISTANCES_RADIUS } from './listings/distance.ts';
+import { applyResultFilters, defaultResultFilters, type ResultFilters } from './listings/filters.ts';
+import { parseKeywordQuery, searchListings } from './listings/keywords.ts';
+import { resolveListings } from './listings/resolve.ts';
+import type { Listing } from './listings/types.ts';
+
+// What a saved search looks for, shared by the functions that run saved searches and the browser that saves them.
+// The database side (runs, matches) is in savedSearchRuns.ts.
+
+// Result filters as saved. A date range would go stale within the week, so saved searches have none: a run
+// matches every sale that hasn't ended.
+export type SavedSearchFilters = Omit<ResultFilters, 'dateFrom' | 'dateTo'>;
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  location: string;
+  radius: number;
+  sources: string[];
+  saleTypes: string[];
+  filters: Partial<SavedSearchFilters>;
+  keywords: string;
+}
+
+// A saved_searches row as the database returns it
+export interface SavedSearchRow {
+  id: string;
+  name: string;
+  location: string;
+  radius: number;
+  sources: string[];
+  sale_types: string[];
+  filters: unknown;
+  keywords: string;
+}
+
+export function savedSearchFromRow(row: SavedSearchRow): SavedSearch {
+  return {
+    id: row.id,
+    name: row.name,
+    location: row.location,
+    radius: row.radius,
+    sources: row.sources,
+    saleTypes: row.sale_types,
+    filters: (row.filters || {}) as Partial<SavedSearchFilters>,
+    keywords: row.keywords,
+  };
+}
+
+export function savedSearchFilters(filters: ResultFilters): SavedSearchFilters {
+  const { dateFrom: _from, dateTo: _to, ...saved } = filters;
+  return saved;
+}
+
+// Sources a saved search can re-run from the server; thrift stores are places, not sales, so they never turn up new
+export const SAVED_SEARCH_SOURCES = [ESTATESALES_SOURCE_ID, CRAIGSLIST_SOURCE_ID];
+
+// The chosen sources a run searches; empty when none were chosen, which leaves search-sales' defaults
+export const savedSearchRunSources = (sources: string[]) => sources.filter((id) => SAVED_SEARCH_SOURCES.includes(id));
+
+// A search that chose only sources runs skip (thrift stores) has nothing to re-run; its empty list must not fall
+// back to the defaults
+export const hasNothingToRun = (sources: string[]) => sources.length > 0 && savedSearchRunSources(sources).length === 0;
+
+// The listings of one run that the saved search matches: cross-listed sales merged as on the results page, then
+// the keyword query and the filters applied
+export function savedSearchMatches(search: SavedSearch, listings: Listing[], now = new Date()): Listing[] {
+  const filters: ResultFilters = {
+    ...defaultResultFilters(now),
+    ...search.filters,
+    dateFrom: undefined,
+    dateTo: undefined,
+  };
+  const keywordMatches = searchListings(resolveListings(listings), parseKeywordQuery(search.keywords));
+  return applyResultFilters(keywordMatches.map((match) => match.listing), filters, now);
+}
+
+// The listings inside the search's radius, given each one's straight-line miles from the search's location by id.
+// A listing missing from `miles` couldn't be placed and is kept, as on the results page.
+export function withinSavedRadius(search: SavedSearch, listings: Listing[], miles: Record<string, number>): Listing[] {
+  if (search.radius >= ALL_DISTANCES_RADIUS) return listings;
+  return listings.filter((listing) => miles[listing.id] === undefined || miles[listing.id] <= search.radius);
+}
@@ -0,0 +1,149 @@
+import { isAllowedByRobots } from './robots.ts';
+import type { ScrapeBackend } from './scrapeBackends.ts';
+import {
+  backoffDelay,
+  classifyFailure,
+  DEFAULT_SCRAPE_POLICY,
+  isRetryable,
+  type FailureKind,
+  type ScrapePolicy,
+} from './scrapePolicy.ts';
+
+export interface ScrapeResult {
+  url: string;
+  success: boolean;
+  data?: unknown;
+  error?: string;
+  // Set when the page came from scrape_cache rather than a fresh fetch
+  cached?: boolean;
+  // Backend that fetched the page ('firecrawl', 'direct', 'saved-pages')
+  backend?: string;
+  fetchedAt?: string;
+  // Set on failures so callers can tell a blocked site from a flaky one or an empty account
+  failure?: FailureKind;
+  attempts?: number;
+}
+
+// Firecrawl responses have put markdown in a few different places over time
+export function markdownOf(result: ScrapeResult): string {
+  const data = result.data as { markdown?: string; content?: string } | string | undefined;
+  if (typeof data === 'string') return data;
+  return data?.markdown || data?.content || '';
+}
+
+// Provider credits a caller has set aside (crawl.ts' CreditBudget). The first attempt at each URL is paid for
+// before scraping; every Firecrawl retry takes one more, and a retry that can't be paid for isn't made.
+export interface RetryBudget {
+  take(wanted: number): number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return url;
+  }
+};
+
+// A failed scrape always says why, so retries and callers can tell the failures apart
+type FailedScrape = ScrapeResult & { success: false; failure: FailureKind };
+type ScrapeAttempt = (ScrapeResult & { success: true }) | FailedScrape;
+
+async function attemptScrape(backend: ScrapeBackend, url: string, attempts: number): Promise<ScrapeAttempt> {
+  const fail = (error: string, failure: FailureKind, served?: string): FailedScrape => {
+    console.error(`Failed to scrape ${url} (${failure}):`, error);
+    return { url, success: false, error, failure, attempts, backend: served };
+  };
+
+  try {
+    console.log(`Scraping URL: ${url} via ${backend.id}`);
+    const page = await backend.fetchPage(url);
+    const served = page.backend || backend.id;
+
+    if (page.error) {
+      return fail(page.error, classifyFailure(page.status, page.error), served);
+    }
+    if (page.status && page.status >= 400) {
+      return fail(`Site responded with status ${page.status}`, classifyFailure(page.status), served);
+    }
+    console.log(`Successfully scraped ${url}`);
+    return { url, success: true, data: { markdown: page.markdown || '' }, attempts, backend: served };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const status = (error as { statusCode?: number }).statusCode;
+    return fail(message, classifyFailure(status, message));
+  }
+}
+
+// One URL, retried with backoff while the failure looks transient. A retry goes where the failed attempt went
+// (the fallback backend only takes over on quota and auth failures, which aren't retried), so only retries after
+// a Firecrawl attempt cost credits.
+async function scrapeOne(backend: ScrapeBackend, url: string, policy: ScrapePolicy, budget?: RetryBudget): Promise<ScrapeResult> {
+  let result = await attemptScrape(backend, url, 1);
+
+  for (let attempt = 1; attempt <= policy.maxRetries && !result.success && isRetryable(result.failure); attempt++) {
+    if (budget && (result.backend || backend.id) === 'firecrawl' && budget.take(1) === 0) {
+      console.warn(`Not retrying ${url} after ${result.failure}: the credit budget is spent`);
+      break;
+    }
+    const delay = backoffDelay(attempt - 1, policy.backoffMs);
+    console.log(`Retrying ${url} after ${result.failure} (attempt ${attempt + 1}) in ${Math.round(delay)}ms`);
+    await sleep(delay);
+    result = await attemptScrape(backend, url, attempt + 1);
+  }
+
+  return result;
+}
+
+// Scrapes URLs politely: each domain gets its own `concurrency` slots with a pause between requests,
+// transient failures are retried with backoff, and robots.txt is checked first unless the policy opts out.
+// Running out of provider credits fails the remaining URLs immediately rather than spending attempts on them.
+// Retries are charged to `budget` when one is given.
+export async function scrapeUrls(
+  backend: ScrapeBackend,
+  urls: string[],
+  overrides: Partial<ScrapePolicy> = {},
+  budget?: RetryBudget
+): Promise<ScrapeResult[]> {
+  const policy = { ...DEFAULT_SCRAPE_POLICY, ...overrides };
+  const results = new Map<string, ScrapeResult>();
+  let quotaExhausted = false;
+
+  const byHost = new Map<string, string[]>();
+  for (const url of new Set(urls)) {
+    const host = hostOf(url);
+    byHost.set(host, [...(byHost.get(host) || []), url]);
+  }
+
+  await Promise.all(Array.from(byHost.entries()).map(async ([host, hostUrls]) => {
+    console.log(`Scraping ${hostUrls.length} URLs on ${host} with ${policy.concurrency} at a time`);
+    const queue = [...hostUrls];
+
+    const worker = async () => {
+      for (let url = queue.shift(); url; url = queue.shift()) {
+        if (quotaExhausted) {
+          results.set(url, { url, success: false, error: 'Scraping provider quota exhausted', failure: 'provider-quota', attempts: 0 });
+          continue;
+        }
+        if (policy.respectRobots && !(await isAllowedByRobots(url))) {
+          console.warn(`robots.txt disallows ${url}; skipping`);
+          results.set(url, { url, success: false, error: 'Disallowed by robots.txt', failure: 'robots-disallowed', attempts: 0 });
+          continue;
+        }
+
+        const result = await scrapeOne(backend, url, policy, budget);
+        if (result.failure === 'provider-quota') quotaExhausted = true;
+        results.set(url, result);
+
+        if (queue.length > 0) await sleep(policy.delayMs);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, policy.concurrency) }, worker));
+  }));
+
+  // Every URL went through a worker, so each has a result
+  return urls.map((url) => results.get(url)!);
+}
@@ -0,0 +1,163 @@
+import FirecrawlApp from 'https://esm.sh/@mendable/firecrawl-js@1.29.3';
+import { DOMParser } from 'https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts';
+import { htmlToMarkdown, type DomNode } from './htmlToMarkdown.ts';
+import { normalizeCacheUrl } from './scrapeCache.ts';
+import { classifyFailure } from './scrapePolicy.ts';
+import { isSourceUrl } from './sourceUrls.ts';
+import { providerSecret, recorded } from './transport.ts';
+
+// One attempt at one page. `status` is the HTTP status behind a failure (or the site's status on an error page).
+export interface PageFetch {
+  markdown?: string;
+  status?: number;
+  error?: string;
+  // Which backend actually served the page, when a backend delegates to another
+  backend?: string;
+}
+
+export interface ScrapeBackend {
+  id: string;
+  fetchPage(url: string): Promise<PageFetch>;
+}
+
+export function firecrawlBackend(app: FirecrawlApp): ScrapeBackend {
+  return {
+    id: 'firecrawl',
+    async fetchPage(url) {
+      const result = await recorded('firecrawl', `scrape markdown ${url}`, () => app.scrapeUrl(url, {
+        formats: ['markdown'],
+        timeout: 30000,
+        waitFor: 2000
+      }));
+      if (!result.success) {
+        return { error: result.error || 'Unknown scraping error' };
+      }
+      // Firecrawl "succeeds" on error pages too; the site's own status says whether we got the page
+      return { markdown: result.markdown || '', status: result.metadata?.statusCode };
+    },
+  };
+}
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; TreasureFinder/1.0)';
+const FETCH_TIMEOUT_MS = 20000;
+const MAX_REDIRECTS = 5;
+
+// File a saved copy of `url` is read from: the normalized URL with everything but [a-z0-9.-] turned into `_`
+export const savedPageFileName = (url: string) =>
+  normalizeCacheUrl(url).replace(/^https?:\/\//, '').replace(/[^a-z0-9.-]/gi, '_') + '.html';
+
+// Fetches HTML ourselves and renders it to markdown. Costs no provider credits, but gets no JavaScript
+// rendering or proxies, so pages built client-side or behind bot protection come back thin or blocked.
+// With `savedPagesDir` it reads saved HTML files instead of the network, for running searches offline.
+// Only source URLs are fetched (sourceUrls.ts); redirects are followed by hand so each hop is checked too.
+export function directFetchBackend({ savedPagesDir }: { savedPagesDir?: string } = {}): ScrapeBackend {
+  const parser = new DOMParser();
+
+  const loadHtml = async (url: string): Promise<{ html?: string; status: number; error?: string }> => {
+    if (savedPagesDir) {
+      try {
+        return { html: await Deno.readTextFile(`${savedPagesDir}/${savedPageFileName(url)}`), status: 200 };
+      } catch {
+        return { status: 404 };
+      }
+    }
+    const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+    let current = url;
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      // 403 reads as "blocked", which is not retried
+      if (!isSourceUrl(current)) return { status: 403, error: `Refusing to fetch ${current}: not a source URL` };
+      const response = await fetch(current, {
+        headers: { 'User-Agent': USER_AGENT, 'Accept': 'text/html,application/xhtml+xml' },
+        redirect: 'manual',
+        signal,
+      });
+      const location = response.headers.get('Location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        current = new URL(location, current).toString();
+        continue;
+      }
+      return { html: response.ok ? await response.text() : undefined, status: response.status };
+    }
+    return { status: 508, error: `More than ${MAX_REDIRECTS} redirects from ${url}` };
+  };
+
+  return {
+    id: savedPagesDir ? 'saved-pages' : 'direct',
+    async fetchPage(url) {
+      let loaded: { html?: string; status: number; error?: string };
+      try {
+        loaded = await loadHtml(url);
+      } catch (error) {
+        // AbortSignal.timeout rejects with a TimeoutError; classifyFailure picks it up from the message
+        return { error: error instanceof Error ? `${error.name}: ${error.message}` : 'Fetch failed' };
+      }
+      if (loaded.html === undefined) {
+        return { status: loaded.status, error: loaded.error || `Site responded with status ${loaded.status}` };
+      }
+      const document = parser.parseFromString(loaded.html, 'text/html');
+      if (!document) {
+        return { error: 'Could not parse HTML' };
+      }
+      return { markdown: htmlToMarkdown(document as unknown as DomNode, url), status: loaded.status };
+    },
+  };
+}
+
+// While the provider is out of credits or rejecting our key, every call would fail the same way
+const PROVIDER_COOLDOWN_MS = 15 * 60 * 1000;
+let providerDownUntil = 0;
+
+// Uses `primary` until it reports a quota or auth problem, then `fallback` for the rest of the cooldown.
+// Health is per function instance, so a cold start tries the provider again.
+function withFallback(primary: ScrapeBackend, fallback: ScrapeBackend): ScrapeBackend {
+  return {
+    id: `${primary.id}+${fallback.id}`,
+    async fetchPage(url) {
+      if (Date.now() >= providerDownUntil) {
+        let page: PageFetch;
+        try {
+          page = await primary.fetchPage(url);
+        } catch (error) {
+          const status = (error as { statusCode?: number }).statusCode;
+          page = { status, error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+
+        const providerDown = page.error && (classifyFailure(page.status, page.error) === 'provider-quota' || page.status === 401);
+        if (!providerDown) return { ...page, backend: page.backend || primary.id };
+
+        console.warn(`${primary.id} unavailable (${page.error}); using ${fallback.id} for ${PROVIDER_COOLDOWN_MS / 60000} minutes`);
+        providerDownUntil = Date.now() + PROVIDER_COOLDOWN_MS;
+      }
+      return { ...(await fallback.fetchPage(url)), backend: fallback.id };
+    },
+  };
+}
+
+// Picks the scraping backend from configuration:
+//   SCRAPE_BACKEND=firecrawl  Firecrawl only (needs FIRECRAWL_API_KEY)
+//   SCRAPE_BACKEND=direct     direct fetch only
+//   SCRAPE_BACKEND=auto       Firecrawl, falling back to direct fetch while it is out of quota (the default);
+//                             direct fetch alone when no API key is configured
+//   SCRAPE_SAVED_PAGES_DIR    read saved HTML from this directory instead of fetching (implies direct)
+// Returns null when the configuration cannot work, e.g. Firecrawl-only without a key.
+export function createScrapeBackend(): ScrapeBackend | null {
+  const savedPagesDir = Deno.env.get('SCRAPE_SAVED_PAGES_DIR');
+  if (savedPagesDir) return directFetchBackend({ savedPagesDir });
+
+  const mode = (Deno.env.get('SCRAPE_BACKEND') || 'auto').toLowerCase();
+  const apiKey = providerSecret('FIRECRAWL_API_KEY');
+
+  if (mode === 'direct') return directFetchBackend();
+  if (!apiKey) {
+    if (mode === 'firecrawl') {
+      console.error('FIRECRAWL_API_KEY not found in environment');
+      return null;
+    }
+    console.warn('FIRECRAWL_API_KEY not set; scraping with direct fetch');
+    return directFetchBackend();
+  }
+
+  const firecrawl = firecrawlBackend(new FirecrawlApp({ apiKey }));
+  return mode === 'firecrawl' ? firecrawl : withFallback(firecrawl, directFetchBackend());
+}
@@ -0,0 +1,107 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.53.0';
+import { markdownOf, scrapeUrls, type RetryBudget, type ScrapeResult } from './scrape.ts';
+import type { ScrapeBackend } from './scrapeBackends.ts';
+import type { ScrapePolicy } from './scrapePolicy.ts';
+
+export const DEFAULT_CACHE_TTL_SECONDS = 6 * 60 * 60;
+
+export interface CacheOptions {
+  source?: string;
+  ttlSeconds?: number;
+  // Skip cached copies and overwrite them with a fresh scrape
+  forceRefresh?: boolean;
+  // Politeness settings for the pages that do need scraping
+  policy?: Partial<ScrapePolicy>;
+  // Pays for retries (see scrapeUrls)
+  budget?: RetryBudget;
+}
+
+// Same page, same key: lowercase host, no fragment, no trailing slash, sorted query params
+export function normalizeCacheUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    parsed.hostname = parsed.hostname.toLowerCase();
+    parsed.searchParams.sort();
+    const path = parsed.pathname.replace(/\/+$/, '') || '/';
+    return `${parsed.protocol}//${parsed.host}${path}${parsed.search}`;
+  } catch {
+    return url.trim();
+  }
+}
+
+async function contentHash(markdown: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(markdown));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Service-role client for the cache tables; null when the function runs without Supabase env (caching is skipped)
+export function createCacheClient(): SupabaseClient | null {
+  const url = Deno.env.get('SUPABASE_URL');
+  const key = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!url || !key) {
+    console.warn('SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY missing; caching disabled');
+    return null;
+  }
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+// Serves fresh cached markdown where we have it and scrapes (then stores) only the rest.
+// Cache failures are logged and treated as misses so a broken table never breaks a search.
+export async function scrapeWithCache(
+  backend: ScrapeBackend,
+  db: SupabaseClient | null,
+  urls: string[],
+  { source, ttlSeconds = DEFAULT_CACHE_TTL_SECONDS, forceRefresh = false, policy, budget }: CacheOptions = {}
+): Promise<ScrapeResult[]> {
+  if (!db || urls.length === 0) {
+    return scrapeUrls(backend, urls, policy, budget);
+  }
+
+  const keys = urls.map(normalizeCacheUrl);
+  const hits = new Map<string, { markdown: string; fetched_at: string }>();
+
+  if (!forceRefresh) {
+    const freshAfter = new Date(Date.now() - ttlSeconds * 1000).toISOString();
+    const { data, error } = await db
+      .from('scrape_cache')
+      .select('url, markdown, fetched_at')
+      .in('url', Array.from(new Set(keys)))
+      .gte('fetched_at', freshAfter);
+
+    if (error) {
+      console.error('scrape_cache lookup failed:', error);
+    } else {
+      for (const row of data || []) hits.set(row.url, row);
+    }
+  }
+
+  const misses = urls.filter((_, i) => !hits.has(keys[i]));
+  const scraped = await scrapeUrls(backend, misses, policy, budget);
+  const fetchedAt = new Date().toISOString();
+
+  const rows = await Promise.all(scraped
+    .filter((result) => result.success && markdownOf(result))
+    .map(async (result) => {
+      const markdown = markdownOf(result);
+      return { url: normalizeCacheUrl(result.url), source, markdown, content_hash: await contentHash(markdown), fetched_at: fetchedAt };
+    }));
+
+  if (rows.length > 0) {
+    const { error } = await db.from('scrape_cache').upsert(rows, { onConflict: 'url' });
+    if (error) console.error('scrape_cache write failed:', error);
+  }
+
+  console.log(`scrape cache: ${urls.length - misses.length} hits, ${misses.length} misses`);
+
+  const scrapedByUrl = new Map(scraped.map((result) => [result.url, result]));
+  return urls.map((url, i): ScrapeResult => {
+    const hit = hits.get(keys[i]);
+    if (hit) {
+      return { url, success: true, data: { markdown: hit.markdown }, cached: true, fetchedAt: hit.fetched_at };
+    }
+    // Every URL without a fresh hit was in `misses`, so it was scraped
+    const result = scrapedByUrl.get(url)!;
+    return result.success ? { ...result, cached: false, fetchedAt } : result;
+  });
+}
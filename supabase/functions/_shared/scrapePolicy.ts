@@ -0,0 +1,51 @@
+// How hard we may hit one site. Each scraped source declares its own; anything omitted falls back to the defaults.
+export interface ScrapePolicy {
+  // Requests in flight at once against a single domain
+  concurrency: number;
+  // Pause between consecutive requests on the same connection slot
+  delayMs: number;
+  // Extra attempts for retryable failures, with exponential backoff from `backoffMs`
+  maxRetries: number;
+  backoffMs: number;
+  respectRobots: boolean;
+}
+
+export const DEFAULT_SCRAPE_POLICY: ScrapePolicy = {
+  concurrency: 3,
+  delayMs: 1000,
+  maxRetries: 2,
+  backoffMs: 1000,
+  respectRobots: true,
+};
+
+// Why a page could not be fetched. `provider-quota` is our Firecrawl account, not the site.
+export type FailureKind =
+  | 'blocked'
+  | 'timeout'
+  | 'rate-limited'
+  | 'not-found'
+  | 'provider-quota'
+  | 'robots-disallowed'
+  | 'unknown';
+
+// Firecrawl reports its own failures by HTTP status and the target site's status in page metadata;
+// the message is the fallback when neither is available
+export function classifyFailure(status: number | undefined, message = ''): FailureKind {
+  if (status === 402 || /insufficient credits|payment required|quota/i.test(message)) return 'provider-quota';
+  if (status === 429 || /rate.?limit|too many requests/i.test(message)) return 'rate-limited';
+  if (status === 408 || status === 504 || /timed? ?out/i.test(message)) return 'timeout';
+  if (status === 404 || status === 410 || /not found/i.test(message)) return 'not-found';
+  if (status === 401 || status === 403 || /blocked|forbidden|captcha|access denied|scraping engines failed/i.test(message)) return 'blocked';
+  return 'unknown';
+}
+
+// Transient failures are worth another attempt; the rest will fail the same way again
+export const isRetryable = (kind: FailureKind) => kind === 'timeout' || kind === 'rate-limited' || kind === 'unknown';
+
+const MAX_BACKOFF_MS = 15000;
+
+// Exponential backoff with jitter: half the step is fixed, the other half random, so parallel retries spread out
+export function backoffDelay(attempt: number, backoffMs: number): number {
+  const step = Math.min(MAX_BACKOFF_MS, backoffMs * 2 ** attempt);
+  return step / 2 + Math.random() * (step / 2);
+}
@@ -0,0 +1,28 @@
+// The only pages the scraping functions fetch: the registered sources' own sites, over https. Anything a client
+// sends is checked against these before it is scraped, so the functions (which anyone can call) can't be pointed
+// at internal hosts or cloud metadata addresses, or used to fill scrape_cache with pages from elsewhere.
+
+export const ESTATESALES_HOST = 'www.estatesales.net';
+
+const SOURCE_HOSTS = [
+  (host: string) => host === ESTATESALES_HOST,
+  // www.craigslist.org for searches, a city subdomain (detroit.craigslist.org) for postings
+  (host: string) => /^[a-z0-9-]+\.craigslist\.org$/.test(host),
+];
+
+const parseUrl = (url: string) => {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+};
+
+// An https URL on a source host, with no port or credentials in it
+export function isSourceUrl(url: string): boolean {
+  const parsed = parseUrl(url);
+  if (!parsed || parsed.protocol !== 'https:' || parsed.port || parsed.username || parsed.password) return false;
+  return SOURCE_HOSTS.some((matches) => matches(parsed.hostname));
+}
+
+export const isEstateSalesUrl = (url: string) => isSourceUrl(url) && parseUrl(url)?.hostname === ESTATESALES_HOST;
@@ -0,0 +1,128 @@
+// Record/replay for calls to external providers (Firecrawl, Google, Mapbox, OpenAI).
+//
+//   PROVIDER_TRANSPORT=live    call the provider (the default)
+//   PROVIDER_TRANSPORT=record  call the provider and save each response as a fixture file
+//   PROVIDER_TRANSPORT=replay  answer from fixture files only; a call with no fixture fails loudly
+//   PROVIDER_FIXTURES_DIR      where fixtures live (default: supabase/functions/_fixtures/providers)
+//
+// Fixtures are keyed by provider plus method, URL (with credentials stripped) and a hash of the request body,
+// and are shared with the browser's transport in src/lib/providerTransport.ts.
+
+export type TransportMode = 'live' | 'record' | 'replay';
+
+export interface ProviderFixture {
+  provider: string;
+  key: string;
+  recordedAt: string;
+  // A fetch response, the JSON result of an SDK call, or the error that call threw
+  response?: { status: number; contentType: string; body: string };
+  result?: unknown;
+  error?: { message: string; statusCode?: number };
+}
+
+// Query parameters that carry credentials never reach a fixture key or file
+const SECRET_PARAMS = ['key', 'api_key', 'apikey', 'access_token', 'token'];
+
+export function transportMode(): TransportMode {
+  const mode = (Deno.env.get('PROVIDER_TRANSPORT') || 'live').toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : 'live';
+}
+
+// A provider credential; in replay mode a placeholder stands in so functions run without real keys
+export function providerSecret(name: string): string | undefined {
+  return Deno.env.get(name) || (transportMode() === 'replay' ? `replay-${name.toLowerCase()}` : undefined);
+}
+
+const fixturesDir = () =>
+  Deno.env.get('PROVIDER_FIXTURES_DIR') || new URL('../_fixtures/providers', import.meta.url).pathname;
+
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    SECRET_PARAMS.forEach((param) => parsed.searchParams.delete(param));
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+const fixturePath = async (provider: string, key: string) =>
+  `${fixturesDir()}/${provider}/${(await sha256(key)).slice(0, 16)}.json`;
+
+async function readFixture(provider: string, key: string): Promise<ProviderFixture> {
+  const path = await fixturePath(provider, key);
+  try {
+    return JSON.parse(await Deno.readTextFile(path));
+  } catch {
+    throw new Error(`No recorded ${provider} response for "${key}" (looked in ${path})`);
+  }
+}
+
+async function writeFixture(fixture: ProviderFixture) {
+  const path = await fixturePath(fixture.provider, fixture.key);
+  try {
+    await Deno.mkdir(path.slice(0, path.lastIndexOf('/')), { recursive: true });
+    await Deno.writeTextFile(path, JSON.stringify(fixture, null, 2) + '\n');
+  } catch (error) {
+    // Recording is a development aid; a read-only filesystem shouldn't break the call itself
+    console.warn(`Could not record ${fixture.provider} fixture:`, error);
+  }
+}
+
+const replayError = (error: NonNullable<ProviderFixture['error']>) =>
+  Object.assign(new Error(error.message), { statusCode: error.statusCode });
+
+// Wraps any provider call whose result is JSON-serializable (e.g. an SDK method). Thrown errors are recorded
+// and rethrown on replay with their message and statusCode, so failure handling replays too.
+export async function recorded<T>(provider: string, key: string, call: () => Promise<T>): Promise<T> {
+  const mode = transportMode();
+  if (mode === 'replay') {
+    const fixture = await readFixture(provider, key);
+    if (fixture.error) throw replayError(fixture.error);
+    return fixture.result as T;
+  }
+  if (mode === 'live') return call();
+
+  const recordedAt = new Date().toISOString();
+  try {
+    const result = await call();
+    await writeFixture({ provider, key, recordedAt, result });
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await writeFixture({ provider, key, recordedAt, error: { message, statusCode: (error as { statusCode?: number }).statusCode } });
+    throw error;
+  }
+}
+
+// Drop-in for fetch() against a provider's HTTP API
+export async function providerFetch(provider: string, input: string | URL, init: RequestInit = {}): Promise<Response> {
+  const method = (init.method || 'GET').toUpperCase();
+  const body = typeof init.body === 'string' ? init.body : '';
+  const key = `${method} ${redactUrl(String(input))}${body ? ` #${(await sha256(body)).slice(0, 16)}` : ''}`;
+  const mode = transportMode();
+
+  if (mode === 'replay') {
+    const { response, error } = await readFixture(provider, key);
+    if (error) throw replayError(error);
+    if (!response) throw new Error(`Recorded ${provider} fixture for "${key}" holds no HTTP response`);
+    return new Response(response.body, { status: response.status, headers: { 'Content-Type': response.contentType } });
+  }
+
+  const response = await fetch(input, init);
+  if (mode === 'record') {
+    const text = await response.clone().text();
+    await writeFixture({
+      provider,
+      key,
+      recordedAt: new Date().toISOString(),
+      response: { status: response.status, contentType: response.headers.get('Content-Type') || 'application/json', body: text },
+    });
+  }
+  return response;
+}
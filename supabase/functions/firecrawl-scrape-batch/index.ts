@@ -1,13 +1,28 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.53.0';
-import FirecrawlApp from 'https://esm.sh/@mendable/firecrawl-js@1.29.3';
+import { createCacheClient, scrapeWithCache } from '../_shared/scrapeCache.ts';
+import { createScrapeBackend } from '../_shared/scrapeBackends.ts';
+import { isSourceUrl } from '../_shared/sourceUrls.ts';
+import type { ScrapePolicy } from '../_shared/scrapePolicy.ts';
+import { ESTATESALES_SCRAPE_POLICY, ESTATESALES_SOURCE_ID } from '../_shared/listings/estatesales.ts';
+import { CRAIGSLIST_SCRAPE_POLICY, CRAIGSLIST_SOURCE_ID } from '../_shared/listings/craigslist.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Known sources scrape with their own politeness settings; anything else gets the defaults
+const scrapePolicies: Record<string, Partial<ScrapePolicy>> = {
+  [ESTATESALES_SOURCE_ID]: ESTATESALES_SCRAPE_POLICY,
+  [CRAIGSLIST_SOURCE_ID]: CRAIGSLIST_SCRAPE_POLICY,
+};
+
 interface ScrapeRequest {
   urls: string[];
+  // Which source the URLs belong to (picks its scrape policy and tags cache rows),
+  // how old a cached page may be, and whether to bypass the cache
+  source?: string;
+  ttlSeconds?: number;
+  forceRefresh?: boolean;
 }
 
 Deno.serve(async (req) => {
@@ -19,7 +34,7 @@ Deno.serve(async (req) => {
   try {
     console.log('Batch firecrawl scrape request received');
     
-    const { urls }: ScrapeRequest = await req.json();
+    const { urls, source, ttlSeconds, forceRefresh = false }: ScrapeRequest = await req.json();
     
     if (!urls || !Array.isArray(urls) || urls.length === 0) {
       return new Response(
@@ -34,13 +49,13 @@ Deno.serve(async (req) => {
       );
     }
 
-    const apiKey = Deno.env.get('FIRECRAWL_API_KEY');
-    if (!apiKey) {
-      console.error('FIRECRAWL_API_KEY not found in environment');
+    // Only the sources' own pages; anything else would make this an open proxy into scrape_cache
+    const refused = urls.filter((url) => typeof url !== 'string' || !isSourceUrl(url));
+    if (refused.length > 0) {
       return new Response(
-        JSON.stringify({ success: false, error: 'API key not configured' }),
+        JSON.stringify({ success: false, error: `Only https pages on estatesales.net and craigslist.org can be scraped: ${refused.slice(0, 3).join(', ')}` }),
         { 
-          status: 500, 
+          status: 400, 
           headers: { 
             'Content-Type': 'application/json',
             ...corsHeaders 
@@ -49,62 +64,23 @@ Deno.serve(async (req) => {
       );
     }
 
-    console.log(`Starting batch scrape for ${urls.length} URLs`);
-    const app = new FirecrawlApp({ apiKey });
-
-    // Process URLs in parallel batches of 3 to avoid overwhelming the service
-    const batchSize = 3;
-    const allResults = [];
-    
-    for (let i = 0; i < urls.length; i += batchSize) {
-      const batch = urls.slice(i, i + batchSize);
-      console.log(`Processing batch ${Math.floor(i / batchSize) + 1} with ${batch.length} URLs`);
-      
-      const batchPromises = batch.map(async (url) => {
-        try {
-          console.log(`Scraping URL: ${url}`);
-          
-          const scrapeResult = await app.scrapeUrl(url, {
-            formats: ['markdown'],
-            timeout: 30000,
-            waitFor: 2000
-          });
-
-          if (!scrapeResult.success) {
-            console.error(`Failed to scrape ${url}:`, scrapeResult.error);
-            return {
-              url,
-              success: false,
-              error: scrapeResult.error || 'Unknown scraping error'
-            };
-          }
-
-          console.log(`Successfully scraped ${url}`);
-          console.log(`Scrape result structure:`, JSON.stringify(scrapeResult, null, 2));
-          return {
-            url,
-            success: true,
-            data: scrapeResult.data || scrapeResult
-          };
-        } catch (error) {
-          console.error(`Error scraping ${url}:`, error);
-          return {
-            url,
-            success: false,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          };
+    const backend = createScrapeBackend();
+    if (!backend) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'API key not configured' }),
+        { 
+          status: 500, 
+          headers: { 
+            'Content-Type': 'application/json',
+            ...corsHeaders 
+          } 
         }
-      });
-
-      const batchResults = await Promise.all(batchPromises);
-      allResults.push(...batchResults);
-      
-      // Add a small delay between batches to be respectful
-      if (i + batchSize < urls.length) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
+      );
     }
 
+    console.log(`Starting batch scrape for ${urls.length} URLs with ${backend.id}`);
+    const allResults = await scrapeWithCache(backend, createCacheClient(), urls, { source, ttlSeconds, forceRefresh, policy: source ? scrapePolicies[source] : undefined });
+
     console.log(`Batch scraping completed. ${allResults.filter(r => r.success).length}/${allResults.length} successful`);
 
     return new Response(
@@ -112,7 +88,8 @@ Deno.serve(async (req) => {
         success: true, 
         results: allResults,
         totalProcessed: allResults.length,
-        successCount: allResults.filter(r => r.success).length
+        successCount: allResults.filter(r => r.success).length,
+        cachedCount: allResults.filter(r => r.cached).length
       }),
       { 
         headers: { 
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import FirecrawlApp from "https://esm.sh/@mendable/firecrawl-js@1.29.3"
+import { providerSecret, recorded } from "../_shared/transport.ts"
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -13,7 +14,7 @@ serve(async (req) => {
   }
 
   try {
-    const FIRECRAWL_API_KEY = Deno.env.get('FIRECRAWL_API_KEY')
+    const FIRECRAWL_API_KEY = providerSecret('FIRECRAWL_API_KEY')
     if (!FIRECRAWL_API_KEY) {
       throw new Error('FIRECRAWL_API_KEY is not set in Supabase secrets')
     }
@@ -34,7 +35,7 @@ serve(async (req) => {
     
     const firecrawl = new FirecrawlApp({ apiKey: FIRECRAWL_API_KEY })
 
-    const scrapeResponse = await firecrawl.scrapeUrl(url, {
+    const scrapeResponse = await recorded('firecrawl', `scrape markdown,html ${url}`, () => firecrawl.scrapeUrl(url, {
       formats: ['markdown', 'html'],
       onlyMainContent: false,
       waitFor: 8000,
@@ -53,7 +54,7 @@ serve(async (req) => {
           milliseconds: 2000
         }
       ]
-    })
+    }))
 
     if (!scrapeResponse.success) {
       console.error('Scrape failed:', scrapeResponse.error)
@@ -1,5 +1,6 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { providerFetch, providerSecret } from "../_shared/transport.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,7 +13,7 @@ serve(async (req) => {
   }
 
   try {
-    const apiKey = Deno.env.get("OPENAI_API_KEY");
+    const apiKey = providerSecret("OPENAI_API_KEY");
     if (!apiKey) {
       return new Response(JSON.stringify({ error: "Missing OPENAI_API_KEY" }), {
         status: 500,
@@ -30,7 +31,7 @@ serve(async (req) => {
 
     const embeddingModel = model || "text-embedding-3-small"; // 1536 dims
 
-    const response = await fetch("https://api.openai.com/v1/embeddings", {
+    const response = await providerFetch("openai", "https://api.openai.com/v1/embeddings", {
       method: "POST",
       headers: {
         "Authorization": `Bearer ${apiKey}`,
@@ -0,0 +1,46 @@
+import { geocodeWithCache } from '../_shared/geocodeCache.ts';
+import { createGeocodeProvider } from '../_shared/geocodeProviders.ts';
+import { createCacheClient } from '../_shared/scrapeCache.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Addresses per request; the browser module splits longer lists
+const MAX_ADDRESSES = 100;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Takes `addresses` and answers `results` in the same order: { lat, lng, precision, formattedAddress, provider,
+// cached } for each address that could be placed, null for the rest
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { addresses } = await req.json();
+    if (!Array.isArray(addresses) || addresses.some((address) => typeof address !== 'string')) {
+      return json({ success: false, error: 'addresses must be a list of strings' }, 400);
+    }
+    if (addresses.length > MAX_ADDRESSES) {
+      return json({ success: false, error: `At most ${MAX_ADDRESSES} addresses per request` }, 400);
+    }
+
+    const provider = createGeocodeProvider();
+    if (!provider) {
+      return json({ success: false, error: 'Geocoding provider not configured' }, 500);
+    }
+
+    const results = await geocodeWithCache(provider, createCacheClient(), addresses);
+    return json({ success: true, provider: provider.id, results });
+  } catch (error) {
+    console.error('Error in geocode:', error);
+    return json({ success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' }, 500);
+  }
+});
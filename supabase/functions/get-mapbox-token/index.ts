@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { providerSecret } from "../_shared/transport.ts"
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,7 +13,7 @@ serve(async (req) => {
   }
 
   try {
-    const MAPBOX_PUBLIC_TOKEN = Deno.env.get('MAPBOX_PUBLIC_TOKEN')
+    const MAPBOX_PUBLIC_TOKEN = providerSecret('MAPBOX_PUBLIC_TOKEN')
     if (!MAPBOX_PUBLIC_TOKEN) {
       throw new Error('MAPBOX_PUBLIC_TOKEN is not set in Supabase secrets')
     }
@@ -1,5 +1,6 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { providerFetch, providerSecret } from "../_shared/transport.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,7 +13,7 @@ serve(async (req) => {
   }
 
   try {
-    const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
+    const OPENAI_API_KEY = providerSecret("OPENAI_API_KEY");
     if (!OPENAI_API_KEY) {
       return new Response(JSON.stringify({ error: "Missing OPENAI_API_KEY" }), {
         status: 500,
@@ -38,7 +39,7 @@ serve(async (req) => {
     const systemPrompt = "You are an OCR assistant. Extract all visible text from the image and return plain text only.";
     const userText = hints ? `Hints: ${hints}` : "Please extract the text";
 
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
+    const response = await providerFetch("openai", "https://api.openai.com/v1/chat/completions", {
       method: "POST",
       headers: {
         "Authorization": `Bearer ${OPENAI_API_KEY}`,
@@ -1,4 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.53.0";
+import { geocodeWithCache } from "../_shared/geocodeCache.ts";
+import { createGeocodeProvider } from "../_shared/geocodeProviders.ts";
+import { createCacheClient } from "../_shared/scrapeCache.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -21,22 +25,6 @@ function haversine(a: { lat: number; lng: number }, b: { lat: number; lng: numbe
   return R * d;
 }
 
-async function geocodeAddress(address: string, apiKey: string): Promise<{ lat: number; lng: number } | null> {
-  // If address is already a lat,lng string, parse directly
-  const coordMatch = address.match(/^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/);
-  if (coordMatch) {
-    return { lat: parseFloat(coordMatch[1]), lng: parseFloat(coordMatch[2]) };
-  }
-
-  const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(address)}&key=${apiKey}`;
-  const res = await fetch(url);
-  if (!res.ok) return null;
-  const data = await res.json();
-  if (data.status !== 'OK' || !data.results?.length) return null;
-  const loc = data.results[0].geometry.location;
-  return { lat: loc.lat, lng: loc.lng };
-}
-
 function nearestNeighborOrder(points: { lat: number; lng: number }[]) {
   const n = points.length;
   const visited = Array(n).fill(false);
@@ -92,13 +80,35 @@ function buildGoogleMapsUrl(addresses: string[]) {
   return `https://www.google.com/maps/dir/${parts.join('/')}`;
 }
 
+// Stores the route for /route/:id and returns its id; null when there is no database or the insert failed, in which
+// case the route is still returned to the caller, just not shareable
+async function saveRoute(db: SupabaseClient | null, stops: { address: string; id: string | null }[], googleMapsUrl: string) {
+  if (!db) return null;
+  const [start, ...rest] = stops;
+  const { data, error } = await db
+    .from('saved_routes')
+    .insert({
+      starting_address: start.address,
+      stops: rest.map((stop) => ({ saleId: stop.id, address: stop.address })),
+      google_maps_url: googleMapsUrl,
+    })
+    .select('id')
+    .single();
+  if (error) {
+    console.error('saved_routes insert failed:', error);
+    return null;
+  }
+  return data.id as string;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { addresses, startingAddress } = await req.json();
+    // `stopIds` (optional) runs parallel to `addresses`, null for the start, so callers can map the route back to listings
+    const { addresses, startingAddress, stopIds } = await req.json();
 
     if (!addresses || !Array.isArray(addresses) || addresses.length < 2) {
       return new Response(
@@ -107,24 +117,27 @@ serve(async (req) => {
       );
     }
 
-    const apiKey = Deno.env.get('GOOGLE_PLACES_API_KEY');
-    if (!apiKey) {
-      throw new Error('GOOGLE_PLACES_API_KEY is not set in Supabase secrets');
+    const geocoder = createGeocodeProvider();
+    if (!geocoder) {
+      throw new Error('Geocoding provider not configured');
     }
 
     // Ensure first element is the starting address
     let inputAddresses: string[] = addresses;
+    let inputIds: (string | null)[] = Array.isArray(stopIds) ? stopIds : [];
     if (startingAddress && addresses[0] !== startingAddress) {
       inputAddresses = [startingAddress, ...addresses];
+      inputIds = [null, ...inputIds];
     }
 
     // Geocode all addresses
-    const geocoded = await Promise.all(inputAddresses.map((addr) => geocodeAddress(addr, apiKey)));
+    const db = createCacheClient();
+    const geocoded = await geocodeWithCache(geocoder, db, inputAddresses);
 
     // Filter out any that failed to geocode (but keep start if possible)
-    const valid: { address: string; coord: { lat: number; lng: number } }[] = [];
+    const valid: { address: string; id: string | null; coord: { lat: number; lng: number } }[] = [];
     geocoded.forEach((coord, i) => {
-      if (coord) valid.push({ address: inputAddresses[i], coord });
+      if (coord) valid.push({ address: inputAddresses[i], id: inputIds[i] ?? null, coord });
     });
 
     if (valid.length < 2) {
@@ -144,11 +157,13 @@ serve(async (req) => {
 
     // Map back to addresses
     const orderedAddresses = order.map((idx) => valid[idx].address);
+    const orderedStopIds = order.map((idx) => valid[idx].id);
 
     const googleMapsUrl = buildGoogleMapsUrl(orderedAddresses);
+    const routeId = await saveRoute(db, order.map((idx) => valid[idx]), googleMapsUrl);
 
     return new Response(
-      JSON.stringify({ optimizedRoute: orderedAddresses, googleMapsUrl }),
+      JSON.stringify({ optimizedRoute: orderedAddresses, optimizedStopIds: orderedStopIds, googleMapsUrl, routeId }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
@@ -0,0 +1,47 @@
+import { runSavedSearch } from '../_shared/savedSearchRuns.ts';
+import { savedSearchFromRow, type SavedSearchRow } from '../_shared/savedSearches.ts';
+import { createCacheClient } from '../_shared/scrapeCache.ts';
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+// Re-runs one enabled saved search, `{ id }`, and records the sales it hasn't matched before. Meant for a schedule,
+// not the browser: it spends scrape credits. One search per request keeps each run well inside the function's
+// time limit; the pg_cron job in the README posts one request per enabled search.
+Deno.serve(async (req) => {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!serviceKey || req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+    return json({ success: false, error: 'The service role key is required' }, 401);
+  }
+
+  try {
+    const { id } = await req.json().catch(() => ({}));
+    if (typeof id !== 'string' || !id) {
+      return json({ success: false, error: 'The id of a saved search is required' }, 400);
+    }
+
+    const db = createCacheClient();
+    if (!db) {
+      return json({ success: false, error: 'Database not configured' }, 500);
+    }
+
+    const { data, error } = await db
+      .from('saved_searches')
+      .select('id, name, location, radius, sources, sale_types, filters, keywords')
+      .eq('id', id)
+      .eq('enabled', true)
+      .maybeSingle();
+    if (error) throw new Error(`saved_searches lookup failed: ${error.message}`);
+    if (!data) return json({ success: false, error: 'No enabled saved search has this id' }, 404);
+
+    const run = await runSavedSearch(db, savedSearchFromRow(data as SavedSearchRow));
+    console.log('saved search run', { name: data.name, ...run });
+    return json({ success: true, run });
+  } catch (error) {
+    console.error('Error in run-saved-searches:', error);
+    return json({ success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' }, 500);
+  }
+});
@@ -0,0 +1,105 @@
+import { runSavedSearch } from '../_shared/savedSearchRuns.ts';
+import { hasNothingToRun, savedSearchFromRow, type SavedSearchRow } from '../_shared/savedSearches.ts';
+import { createCacheClient } from '../_shared/scrapeCache.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+type SavedSearchRequest =
+  // Saves a search and runs it once, so the sales already listed don't show up as new next week
+  | { action: 'create'; name: string; location: string; radius?: number; sources?: string[]; saleTypes?: string[]; filters?: Record<string, unknown>; keywords?: string }
+  | { action: 'delete'; id: string }
+  | { action: 'run'; id: string }
+  // Read state of inbox matches: the listed `matchIds`, or every match of `savedSearchId`
+  | { action: 'mark-read' | 'mark-unread'; matchIds?: string[]; savedSearchId?: string };
+
+// Writes to saved_searches and saved_search_matches, which the browser can only read
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const request: SavedSearchRequest = await req.json();
+    const db = createCacheClient();
+    if (!db) {
+      return json({ success: false, error: 'Database not configured' }, 500);
+    }
+
+    switch (request.action) {
+      case 'create': {
+        if (!request.name?.trim() || !request.location) {
+          return json({ success: false, error: 'A name and a location are required' }, 400);
+        }
+        if (hasNothingToRun(request.sources ?? [])) {
+          return json({ success: false, error: 'Saved searches re-run EstateSales.net and Craigslist only; include one of them' }, 400);
+        }
+        const { data, error } = await db
+          .from('saved_searches')
+          .insert({
+            name: request.name.trim(),
+            location: request.location,
+            radius: request.radius ?? 25,
+            sources: request.sources ?? [],
+            sale_types: request.saleTypes ?? [],
+            filters: request.filters ?? {},
+            keywords: request.keywords ?? '',
+          })
+          .select('id, name, location, radius, sources, sale_types, filters, keywords')
+          .single();
+        if (error) throw new Error(`saved_searches insert failed: ${error.message}`);
+
+        const run = await runSavedSearch(db, savedSearchFromRow(data as SavedSearchRow), { baseline: true });
+        return json({ success: true, id: data.id, run });
+      }
+
+      case 'delete': {
+        const { error } = await db.from('saved_searches').delete().eq('id', request.id);
+        if (error) throw new Error(`saved_searches delete failed: ${error.message}`);
+        return json({ success: true });
+      }
+
+      case 'run': {
+        const { data, error } = await db
+          .from('saved_searches')
+          .select('id, name, location, radius, sources, sale_types, filters, keywords')
+          .eq('id', request.id)
+          .maybeSingle();
+        if (error) throw new Error(`saved_searches lookup failed: ${error.message}`);
+        if (!data) return json({ success: false, error: 'No saved search has this id' }, 404);
+        return json({ success: true, run: await runSavedSearch(db, savedSearchFromRow(data as SavedSearchRow)) });
+      }
+
+      case 'mark-read':
+      case 'mark-unread': {
+        if (!request.matchIds?.length && !request.savedSearchId) {
+          return json({ success: false, error: 'matchIds or savedSearchId is required' }, 400);
+        }
+        let query = db
+          .from('saved_search_matches')
+          .update({ read_at: request.action === 'mark-read' ? new Date().toISOString() : null });
+        query = request.matchIds?.length
+          ? query.in('id', request.matchIds)
+          : query.eq('saved_search_id', request.savedSearchId);
+        // Marking read keeps the first read time
+        const { error } = await (request.action === 'mark-read' ? query.is('read_at', null) : query);
+        if (error) throw new Error(`saved_search_matches update failed: ${error.message}`);
+        return json({ success: true });
+      }
+
+      default:
+        return json({ success: false, error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error('Error in saved-searches:', error);
+    return json({ success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' }, 500);
+  }
+});
@@ -0,0 +1,484 @@
+import { markdownOf, type ScrapeResult } from '../_shared/scrape.ts';
+import { CreditBudget, crawlPaginated, type CrawlStopReason, type Paginator, type Scraper } from '../_shared/crawl.ts';
+import { createCacheClient, scrapeWithCache } from '../_shared/scrapeCache.ts';
+import { recordSales } from '../_shared/salesStore.ts';
+import { createScrapeBackend, type ScrapeBackend } from '../_shared/scrapeBackends.ts';
+import { isEstateSalesUrl, isSourceUrl } from '../_shared/sourceUrls.ts';
+import type { FailureKind, ScrapePolicy } from '../_shared/scrapePolicy.ts';
+import {
+  ESTATESALES_SCRAPE_POLICY,
+  ESTATESALES_SOURCE_ID,
+  estateSalesHasNextPage,
+  estateSalesListingUrls,
+  estateSalesPageCount,
+  estateSalesPageUrl,
+  parseEstateSalesWithStats,
+  SKIP_ENDED,
+} from '../_shared/listings/estatesales.ts';
+import { parseEstateSaleDetail, withDetail } from '../_shared/listings/estatesalesDetail.ts';
+import {
+  CRAIGSLIST_SCRAPE_POLICY,
+  CRAIGSLIST_SOURCE_ID,
+  buildCraigslistSearchUrl,
+  craigslistPageUrl,
+  extractZipcode,
+  parseCraigslistListings,
+  parseCraigslistListingsWithStats,
+} from '../_shared/listings/craigslist.ts';
+import { parseCraigslistPosting, withPosting } from '../_shared/listings/craigslistPosting.ts';
+import { saleTypeFromUrl, saleTypeSearchUrls } from '../_shared/listings/saleTypes.ts';
+import { SKIP_INVALID, validateListing, validateListings } from '../_shared/listings/schema.ts';
+import type { Listing, ParseResult, ParseStats } from '../_shared/listings/types.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface SearchRequest {
+  location: string;
+  radius?: number;
+  sources?: string[];
+  // Scrape each listing's own page (estatesales.net sale page, Craigslist posting) for address, hours and photos
+  enrichDetails?: boolean;
+  detailLimit?: number;
+  // Result pages per source; defaults grow with the radius
+  maxPages?: number;
+  // Firecrawl scrapes (result pages plus detail pages) this search may spend across all sources;
+  // pages served by the direct-fetch fallback don't count
+  creditBudget?: number;
+  // Ignore scrape_cache and fetch every page again
+  forceRefresh?: boolean;
+  // SALE_TYPES ids to search; empty means every type
+  saleTypes?: string[];
+  // Answer with server-sent events (progress, listings per page, per-source reports) instead of one JSON body
+  stream?: boolean;
+}
+
+// One results page: what came back from the fetch and what the parser made of it
+interface PageReport {
+  url: string;
+  ok: boolean;
+  error?: string;
+  failure?: FailureKind;
+  backend?: string;
+  cached: boolean;
+  markdownLength: number;
+  blocksFound: number;
+  blocksSkipped: Record<string, number>;
+  listingsProduced: number;
+  // Plenty of markdown but no listings and no sales skipped as ended: the page layout probably changed
+  parserDrift: boolean;
+}
+
+interface SourceReport {
+  sourceId: string;
+  ok: boolean;
+  error?: string;
+  // Why the first failed page failed; lets the client tell "site is blocking us" from "out of credits"
+  failure?: FailureKind;
+  urls: string[];
+  pagesScraped: number;
+  pagesPlanned: number;
+  stopReason?: CrawlStopReason;
+  detailPagesScraped: number;
+  cachedPages: number;
+  // When the oldest page behind these listings was fetched from the site
+  fetchedAt?: string;
+  listingCount: number;
+  pages: PageReport[];
+  parserDrift: boolean;
+}
+
+const DEFAULT_CREDIT_BUDGET = 40;
+
+// Error and "no results" pages are short; a real results page this long should always yield something
+const DRIFT_MIN_MARKDOWN_LENGTH = 1500;
+
+const looksLikeDrift = (markdownLength: number, stats: ParseStats) =>
+  markdownLength >= DRIFT_MIN_MARKDOWN_LENGTH && stats.listingsProduced === 0 && !stats.blocksSkipped[SKIP_ENDED];
+
+// Wider searches have more results pages worth walking
+const defaultMaxPages = (radius: number) => (radius >= 999 ? 8 : radius >= 50 ? 5 : radius >= 25 ? 3 : 2);
+
+const HOUR = 60 * 60;
+
+// Detail pages fetched per round, so enriched listings stream out while the rest are still loading
+const DETAIL_CHUNK_SIZE = 5;
+
+// Each scraped source knows how to turn a location into first results pages (one per sale-type page it searches),
+// page through them, and parse listings.
+// `cacheTtlSeconds` is how long its result pages may be served from scrape_cache, `scrapePolicy` how politely to fetch them;
+// `details` folds a listing's own page into the listing when detail enrichment is requested.
+const scrapedSources: Record<string, {
+  baseUrls: (location: string, radius: number, saleTypes: string[]) => string[];
+  paginator: Paginator;
+  parse: (markdown: string) => ParseResult;
+  cacheTtlSeconds: number;
+  scrapePolicy: Partial<ScrapePolicy>;
+  details?: {
+    cacheTtlSeconds: number;
+    apply: (listing: Listing, markdown: string) => Listing;
+  };
+}> = {
+  [ESTATESALES_SOURCE_ID]: {
+    baseUrls: (location, _radius, saleTypes) => isEstateSalesUrl(location) ? saleTypeSearchUrls(location, saleTypes) : [],
+    paginator: {
+      pageUrl: estateSalesPageUrl,
+      pageCount: estateSalesPageCount,
+      hasNextPage: estateSalesHasNextPage,
+      listingKeys: estateSalesListingUrls,
+    },
+    parse: (markdown) => parseEstateSalesWithStats(markdown),
+    cacheTtlSeconds: 6 * HOUR,
+    scrapePolicy: ESTATESALES_SCRAPE_POLICY,
+    // Sale pages change less often than result pages once a sale is listed
+    details: {
+      cacheTtlSeconds: 12 * HOUR,
+      apply: (listing, markdown) => withDetail(listing, parseEstateSaleDetail(markdown)),
+    },
+  },
+  [CRAIGSLIST_SOURCE_ID]: {
+    // Craigslist has no per-type pages; its listings are classified from their titles instead
+    baseUrls: (location, radius) => {
+      const zipcode = extractZipcode(location);
+      return zipcode ? [buildCraigslistSearchUrl(zipcode, radius)] : [];
+    },
+    // Craigslist shows no page count, so paging stops at the first page that repeats or comes back empty
+    paginator: {
+      pageUrl: craigslistPageUrl,
+      listingKeys: (markdown) => parseCraigslistListings(markdown).map((l) => l.url),
+    },
+    parse: parseCraigslistListingsWithStats,
+    // Postings come and go quickly
+    cacheTtlSeconds: 1 * HOUR,
+    scrapePolicy: CRAIGSLIST_SCRAPE_POLICY,
+    details: {
+      cacheTtlSeconds: 6 * HOUR,
+      apply: (listing, markdown) => withPosting(listing, parseCraigslistPosting(markdown)),
+    },
+  },
+};
+
+// Detail pages cost a scrape each, so only the first `limit` listings the budget can still pay for are enriched.
+// Links that lead off the sources' sites are never followed.
+// They are fetched a few at a time so enriched listings can be reported as they come in.
+async function enrichWithDetails(
+  scrape: Scraper,
+  listings: Listing[],
+  apply: (listing: Listing, markdown: string) => Listing,
+  limit: number,
+  budget: CreditBudget,
+  onChunk?: (enriched: Listing[], pagesDone: number, pagesPlanned: number) => void
+) {
+  const candidates = Array.from(new Set(listings.map((l) => l.url).filter(isSourceUrl))).slice(0, limit);
+  const detailUrls = candidates.slice(0, budget.take(candidates.length));
+  const byUrl = new Map(listings.filter((l) => l.url).map((l) => [l.url, l]));
+  const results: ScrapeResult[] = [];
+  let detailPagesScraped = 0;
+
+  for (let i = 0; i < detailUrls.length; i += DETAIL_CHUNK_SIZE) {
+    const chunk = await scrape(detailUrls.slice(i, i + DETAIL_CHUNK_SIZE));
+    budget.refundUnspent(chunk);
+    results.push(...chunk);
+
+    const enriched = chunk.flatMap((r) => {
+      const listing = byUrl.get(r.url);
+      const markdown = markdownOf(r);
+      if (!r.success || !markdown || !listing) return [];
+      const updated = apply(listing, markdown);
+      byUrl.set(r.url, updated);
+      return [updated];
+    });
+    detailPagesScraped += enriched.length;
+    onChunk?.(enriched, results.length, detailUrls.length);
+  }
+
+  return {
+    listings: listings.map((listing) => (listing.url && byUrl.get(listing.url)) || listing),
+    detailPagesScraped,
+    pages: results,
+    detailPagesPlanned: detailUrls.length,
+  };
+}
+
+const oldestFetch = (pages: ScrapeResult[]) =>
+  pages.map((p) => p.fetchedAt).filter(Boolean).sort()[0];
+
+// Streamed to the client (`stream: true`) as server-sent events while the search runs
+type SearchEvent =
+  // Pages fetched so far out of the current estimate, across result and detail pages
+  | { type: 'progress'; sourceId: string; pagesDone: number; pagesPlanned: number }
+  // Listings new on a results page, or listings updated from their own pages (matched by url)
+  | { type: 'listings'; sourceId: string; listings: Listing[]; page?: PageReport }
+  | { type: 'source'; report: SourceReport }
+  | { type: 'done'; creditsUsed: number; fetchedAt?: string }
+  | { type: 'error'; error: string };
+
+interface SearchContext {
+  location: string;
+  radius: number;
+  saleTypes: string[];
+  maxPages: number;
+  enrichDetails: boolean;
+  detailLimit: number;
+  forceRefresh: boolean;
+  backend: ScrapeBackend;
+  db: ReturnType<typeof createCacheClient>;
+  budget: CreditBudget;
+  emit: (event: SearchEvent) => void;
+}
+
+async function searchSource(sourceId: string, ctx: SearchContext): Promise<{ report: SourceReport; listings: Listing[] }> {
+  const { backend, db, budget, emit, forceRefresh } = ctx;
+  const source = scrapedSources[sourceId];
+  const baseUrls = source.baseUrls(ctx.location, ctx.radius, ctx.saleTypes);
+  if (baseUrls.length === 0) {
+    return {
+      report: { sourceId, ok: false, error: 'Unable to build search URLs for this location', urls: [], pagesScraped: 0, pagesPlanned: 0, detailPagesScraped: 0, cachedPages: 0, listingCount: 0, pages: [], parserDrift: false },
+      listings: [],
+    };
+  }
+
+  // Each crawl starts out planning its first page; the estimate firms up once that page shows a pager
+  const planned = baseUrls.map(() => 1);
+  let pagesDone = 0;
+  let detailsPlanned = 0;
+  let detailsDone = 0;
+  const sendProgress = () => emit({
+    type: 'progress',
+    sourceId,
+    pagesDone: pagesDone + detailsDone,
+    pagesPlanned: planned.reduce((sum, n) => sum + n, 0) + detailsPlanned,
+  });
+  sendProgress();
+
+  // Pages are parsed as they arrive so each URL gets its own diagnostics and listings can be streamed.
+  // A listing found on a type-specific page is that type, whatever its card text suggests.
+  const pageReports: PageReport[] = [];
+  const seen = new Set<string>();
+  let listings: Listing[] = [];
+
+  const parsePage = (page: ScrapeResult, urlType: string | null) => {
+    const markdown = page.success ? markdownOf(page) : '';
+    const { listings: unchecked, stats } = source.parse(markdown);
+    // Malformed listings never reach the client; they count as skipped blocks so the page report still adds up
+    const { listings: parsed, rejected } = validateListings(unchecked);
+    if (rejected.length > 0) {
+      stats.blocksSkipped[SKIP_INVALID] = (stats.blocksSkipped[SKIP_INVALID] || 0) + rejected.length;
+      stats.listingsProduced -= rejected.length;
+      console.warn(`${sourceId}: rejected ${rejected.length} listings from ${page.url}`, rejected.map((r) => r.issues));
+    }
+    const report: PageReport = {
+      url: page.url,
+      ok: page.success,
+      error: page.error,
+      failure: page.failure,
+      backend: page.backend,
+      cached: !!page.cached,
+      markdownLength: markdown.length,
+      ...stats,
+      parserDrift: looksLikeDrift(markdown.length, stats),
+    };
+    pageReports.push(report);
+
+    const fresh = parsed
+      .map((listing) => urlType ? { ...listing, saleType: urlType } : listing)
+      .filter((listing) => {
+        if (!listing.url) return true;
+        if (seen.has(listing.url)) return false;
+        seen.add(listing.url);
+        return true;
+      });
+    listings.push(...fresh);
+    emit({ type: 'listings', sourceId, listings: fresh, page: report });
+  };
+
+  const scrape: Scraper = (urls) => scrapeWithCache(backend, db, urls, { source: sourceId, ttlSeconds: source.cacheTtlSeconds, forceRefresh, policy: source.scrapePolicy, budget });
+  const crawls = await Promise.all(baseUrls.map(async (baseUrl, i) => {
+    const urlType = saleTypeFromUrl(baseUrl);
+    const crawl = await crawlPaginated(scrape, baseUrl, source.paginator, {
+      maxPages: ctx.maxPages,
+      budget,
+      onPages: (results, pagesPlanned) => {
+        results.forEach((page) => parsePage(page, urlType));
+        pagesDone += results.length;
+        planned[i] = pagesPlanned;
+        sendProgress();
+      },
+    });
+    // A crawl that stopped early will fetch nothing more
+    planned[i] = crawl.pages.length;
+    sendProgress();
+    return crawl;
+  }));
+  const pages = crawls.flatMap((crawl) => crawl.pages);
+  const pagesPlanned = crawls.reduce((sum, crawl) => sum + crawl.pagesPlanned, 0);
+  // With several type pages, report the most limiting reason any of them stopped for
+  const stopReason = crawls.map((crawl) => crawl.stopReason).find((reason) => reason === 'budget' || reason === 'fetch-failed' || reason === 'page-limit') ||
+    crawls[0].stopReason;
+  const successful = pages.filter((r) => r.success);
+
+  let detailPagesScraped = 0;
+  let detailPages: ScrapeResult[] = [];
+  const details = source.details;
+  if (ctx.enrichDetails && details) {
+    // A detail page that would leave the listing malformed is ignored
+    const applyDetails = (listing: Listing, markdown: string) =>
+      validateListing(details.apply(listing, markdown)).listing || listing;
+    const scrapeDetails: Scraper = (urls) => scrapeWithCache(backend, db, urls, { source: sourceId, ttlSeconds: details.cacheTtlSeconds, forceRefresh, policy: source.scrapePolicy, budget });
+    ({ listings, detailPagesScraped, pages: detailPages } = await enrichWithDetails(
+      scrapeDetails, listings, applyDetails, ctx.detailLimit, budget,
+      (enriched, done, total) => {
+        detailsDone = done;
+        detailsPlanned = total;
+        if (enriched.length > 0) emit({ type: 'listings', sourceId, listings: enriched });
+        sendProgress();
+      }
+    ));
+  }
+  const allPages = [...successful, ...detailPages.filter((r) => r.success)];
+
+  // Persisting tells us which sales are new; streamed listings are resent once they carry firstSeenAt
+  const recorded = await recordSales(db, listings);
+  if (recorded !== listings) {
+    listings = recorded;
+    emit({ type: 'listings', sourceId, listings });
+  }
+
+  const firstFailure = pages.find((r) => !r.success);
+  // Drift is a source-level call: markdown came back, yet no page produced or knowingly skipped a sale
+  const parserDrift = listings.length === 0 && pageReports.some((page) => page.parserDrift) &&
+    !pageReports.some((page) => page.blocksSkipped[SKIP_ENDED]);
+  if (parserDrift) {
+    console.warn(`Possible parser drift for ${sourceId}: markdown present but nothing parsed`, pageReports.map((p) => p.url));
+  }
+  return {
+    report: {
+      sourceId,
+      ok: successful.length > 0,
+      error: successful.length > 0 ? undefined : firstFailure?.error || (stopReason === 'budget' ? 'Credit budget exhausted' : 'All pages failed to scrape'),
+      failure: successful.length > 0 ? undefined : firstFailure?.failure,
+      urls: pages.map((r) => r.url),
+      pagesScraped: successful.length,
+      pagesPlanned,
+      stopReason,
+      detailPagesScraped,
+      cachedPages: allPages.filter((r) => r.cached).length,
+      fetchedAt: oldestFetch(allPages),
+      listingCount: listings.length,
+      pages: pageReports,
+      parserDrift,
+    },
+    listings,
+  };
+}
+
+async function searchSources(sources: string[], ctx: SearchContext) {
+  const reports = await Promise.all(sources.map(async (sourceId) => {
+    const result = await searchSource(sourceId, ctx);
+    ctx.emit({ type: 'source', report: result.report });
+    return result;
+  }));
+
+  const listings = reports.flatMap((r) => r.listings);
+  console.log(`search-sales completed with ${listings.length} listings using ${ctx.budget.used}/${ctx.budget.limit} credits`);
+
+  return {
+    success: true,
+    listings,
+    sources: reports.map((r) => r.report),
+    creditsUsed: ctx.budget.used,
+    fetchedAt: reports.map((r) => r.report.fetchedAt).filter(Boolean).sort()[0],
+  };
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Runs the search while writing its events to the response as server-sent events
+function eventStream(run: (emit: (event: SearchEvent) => void) => Promise<{ creditsUsed: number; fetchedAt?: string }>) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit = (event: SearchEvent) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      try {
+        const { creditsUsed, fetchedAt } = await run(emit);
+        emit({ type: 'done', creditsUsed, fetchedAt });
+      } catch (error) {
+        console.error('Error in search-sales stream:', error);
+        emit({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error occurred' });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      location,
+      radius = 25,
+      sources = [ESTATESALES_SOURCE_ID],
+      enrichDetails = false,
+      detailLimit = 20,
+      maxPages = defaultMaxPages(radius),
+      creditBudget = DEFAULT_CREDIT_BUDGET,
+      forceRefresh = false,
+      saleTypes = [],
+      stream = false,
+    }: SearchRequest = await req.json();
+
+    if (!location || typeof location !== 'string') {
+      return json({ success: false, error: 'Location is required' }, 400);
+    }
+    // A location is an estatesales.net location URL or free text (a zip code for Craigslist); any other URL is refused
+    if (/^[a-z][a-z0-9+.-]*:|estatesales\.net/i.test(location.trim()) && !isEstateSalesUrl(location.trim())) {
+      return json({ success: false, error: 'Location must be an https://www.estatesales.net location URL or a place name' }, 400);
+    }
+
+    const unknownSources = sources.filter((id) => !scrapedSources[id]);
+    if (unknownSources.length > 0) {
+      return json({ success: false, error: `Unsupported sources: ${unknownSources.join(', ')}` }, 400);
+    }
+
+    const backend = createScrapeBackend();
+    if (!backend) {
+      return json({ success: false, error: 'API key not configured' }, 500);
+    }
+
+    console.log('search-sales request', { backend: backend.id, location, radius, sources, maxPages, creditBudget, forceRefresh, saleTypes, stream });
+    const ctx: Omit<SearchContext, 'emit'> = {
+      location,
+      radius,
+      saleTypes,
+      maxPages,
+      enrichDetails,
+      detailLimit,
+      forceRefresh,
+      backend,
+      db: createCacheClient(),
+      budget: new CreditBudget(creditBudget),
+    };
+
+    if (stream) {
+      return eventStream((emit) => searchSources(sources, { ...ctx, emit }));
+    }
+    return json(await searchSources(sources, { ...ctx, emit: () => {} }));
+  } catch (error) {
+    console.error('Error in search-sales:', error);
+    return json({ success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' }, 500);
+  }
+});
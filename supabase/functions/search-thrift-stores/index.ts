@@ -1,4 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { geocodeWithCache } from "../_shared/geocodeCache.ts";
+import { createGeocodeProvider } from "../_shared/geocodeProviders.ts";
+import { createCacheClient } from "../_shared/scrapeCache.ts";
+import { providerFetch, providerSecret } from "../_shared/transport.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -19,23 +23,13 @@ function haversineMiles(lat1: number, lon1: number, lat2: number, lon2: number)
   return R * c;
 }
 
-async function geocode(location: string, apiKey: string) {
-  const url = new URL("https://maps.googleapis.com/maps/api/geocode/json");
-  url.searchParams.set("address", location);
-  url.searchParams.set("key", apiKey);
-  const res = await fetch(url);
-  const data = await res.json();
-  if (data.status !== "OK" || !data.results?.length) return null;
-  return data.results[0].geometry.location as { lat: number; lng: number };
-}
-
 async function nearbySearch({ lat, lng }: { lat: number; lng: number }, radiusMiles: number, keyword: string, apiKey: string) {
   const url = new URL("https://maps.googleapis.com/maps/api/place/nearbysearch/json");
   url.searchParams.set("location", `${lat},${lng}`);
   url.searchParams.set("radius", String(Math.min(50000, Math.round(radiusMiles * 1609.34)))); // cap 50km
   url.searchParams.set("keyword", keyword);
   url.searchParams.set("key", apiKey);
-  const res = await fetch(url);
+  const res = await providerFetch("google", url);
   return res.json();
 }
 
@@ -54,7 +48,7 @@ async function details(placeId: string, apiKey: string) {
     // keep photos out for speed; URLs require extra fetch
   ].join(","));
   url.searchParams.set("key", apiKey);
-  const res = await fetch(url);
+  const res = await providerFetch("google", url);
   return res.json();
 }
 
@@ -69,12 +63,13 @@ serve(async (req) => {
       return new Response(JSON.stringify({ success: false, error: "Location is required" }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
     }
 
-    const apiKey = Deno.env.get("GOOGLE_PLACES_API_KEY");
+    const apiKey = providerSecret("GOOGLE_PLACES_API_KEY");
     if (!apiKey) {
       return new Response(JSON.stringify({ success: false, error: "Google Places API key not configured" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
     }
 
-    const origin = await geocode(location, apiKey);
+    const geocoder = createGeocodeProvider();
+    const [origin] = geocoder ? await geocodeWithCache(geocoder, createCacheClient(), [location]) : [null];
     if (!origin) {
       return new Response(JSON.stringify({ success: false, error: "Unable to geocode location" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
     }
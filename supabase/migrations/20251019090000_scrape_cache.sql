@@ -0,0 +1,22 @@
+-- Cached Firecrawl markdown keyed by normalized URL so repeated searches don't spend credits again
+CREATE TABLE IF NOT EXISTS public.scrape_cache (
+  url text PRIMARY KEY,
+  source text,
+  markdown text NOT NULL,
+  content_hash text NOT NULL,
+  fetched_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_cache_fetched_at ON public.scrape_cache (fetched_at);
+
+DO $$ BEGIN
+  CREATE TRIGGER set_scrape_cache_updated_at
+  BEFORE UPDATE ON public.scrape_cache
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+ALTER TABLE public.scrape_cache ENABLE ROW LEVEL SECURITY;
+
+-- No public access to scrape_cache (service role in edge functions bypasses RLS)
@@ -0,0 +1,90 @@
+-- Every sale a search has returned, keyed by its listing id (source plus canonical URL, see _shared/listings/identity.ts).
+-- sale_items.sale_id and image_jobs.sale_id refer to the same ids.
+CREATE TABLE IF NOT EXISTS public.sales (
+  id text PRIMARY KEY,
+  source text NOT NULL,
+  url text NOT NULL,
+  title text NOT NULL,
+  -- Fields tracked in sale_revisions
+  address text,
+  -- Set when the address came from the sale's own page rather than its search-result card
+  address_detailed boolean NOT NULL DEFAULT false,
+  sale_dates text,
+  photo_count int,
+  last_modified text,
+  -- The listing as search-sales last returned it
+  payload jsonb NOT NULL,
+  first_seen_at timestamptz NOT NULL DEFAULT now(),
+  last_seen_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sales_source ON public.sales (source);
+CREATE INDEX IF NOT EXISTS idx_sales_first_seen_at ON public.sales (first_seen_at);
+CREATE INDEX IF NOT EXISTS idx_sales_last_seen_at ON public.sales (last_seen_at);
+
+-- One row per tracked field that changed between two sightings of a sale
+CREATE TABLE IF NOT EXISTS public.sale_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id text NOT NULL REFERENCES public.sales(id) ON DELETE CASCADE,
+  field text NOT NULL,
+  old_value text,
+  new_value text,
+  observed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sale_revisions_sale_id ON public.sale_revisions (sale_id, observed_at);
+
+-- Upserts only ever move a sale forward: first_seen_at is kept, a field this sighting didn't see keeps its stored value
+-- (so a search without detail pages doesn't undo what one with them found), and each field that did change is logged.
+CREATE OR REPLACE FUNCTION public.track_sale_revisions()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.first_seen_at = OLD.first_seen_at;
+
+  IF NEW.address IS NULL OR NEW.address = '' OR (OLD.address_detailed AND NOT NEW.address_detailed) THEN
+    NEW.address = OLD.address;
+    NEW.address_detailed = OLD.address_detailed;
+  END IF;
+  NEW.sale_dates = COALESCE(NULLIF(NEW.sale_dates, ''), OLD.sale_dates);
+  NEW.photo_count = COALESCE(NEW.photo_count, OLD.photo_count);
+  NEW.last_modified = COALESCE(NULLIF(NEW.last_modified, ''), OLD.last_modified);
+
+  INSERT INTO public.sale_revisions (sale_id, field, old_value, new_value, observed_at)
+  SELECT NEW.id, change.field, change.old_value, change.new_value, NEW.last_seen_at
+  FROM (VALUES
+    ('address', OLD.address, NEW.address),
+    ('sale_dates', OLD.sale_dates, NEW.sale_dates),
+    ('photo_count', OLD.photo_count::text, NEW.photo_count::text),
+    ('last_modified', OLD.last_modified, NEW.last_modified)
+  ) AS change(field, old_value, new_value)
+  WHERE change.old_value IS NOT NULL AND change.old_value IS DISTINCT FROM change.new_value;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$ BEGIN
+  CREATE TRIGGER track_sales_revisions
+  BEFORE UPDATE ON public.sales
+  FOR EACH ROW EXECUTE FUNCTION public.track_sale_revisions();
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+DO $$ BEGIN
+  CREATE TRIGGER set_sales_updated_at
+  BEFORE UPDATE ON public.sales
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+ALTER TABLE public.sales ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sale_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Public read-only access; search-sales writes with the service role
+DO $$ BEGIN
+  CREATE POLICY "Public can read sales" ON public.sales FOR SELECT USING (true);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Public can read sale_revisions" ON public.sale_revisions FOR SELECT USING (true);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
@@ -0,0 +1,25 @@
+-- Geocoded addresses keyed by normalized address (see _shared/geocode.ts), shared by every function that geocodes
+CREATE TABLE IF NOT EXISTS public.geocode_cache (
+  address_key text PRIMARY KEY,
+  lat double precision NOT NULL,
+  lng double precision NOT NULL,
+  -- rooftop, street, postal or city
+  precision text NOT NULL CHECK (precision IN ('rooftop', 'street', 'postal', 'city')),
+  formatted_address text,
+  provider text NOT NULL,
+  fetched_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_geocode_cache_fetched_at ON public.geocode_cache (fetched_at);
+
+DO $$ BEGIN
+  CREATE TRIGGER set_geocode_cache_updated_at
+  BEFORE UPDATE ON public.geocode_cache
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+ALTER TABLE public.geocode_cache ENABLE ROW LEVEL SECURITY;
+
+-- No public access to geocode_cache (service role in edge functions bypasses RLS)
@@ -0,0 +1,23 @@
+-- Routes built by optimize-route, so a planned day can be reopened or shared at /route/:id
+CREATE TABLE IF NOT EXISTS public.saved_routes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  starting_address text NOT NULL,
+  -- Stops after the start in driving order: [{ "saleId": "estatesales-net-…" | null, "address": "…" }]
+  stops jsonb NOT NULL,
+  google_maps_url text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+DO $$ BEGIN
+  CREATE TRIGGER set_saved_routes_updated_at
+  BEFORE UPDATE ON public.saved_routes
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+ALTER TABLE public.saved_routes ENABLE ROW LEVEL SECURITY;
+
+-- Public read-only access by id; optimize-route writes with the service role
+DO $$ BEGIN
+  CREATE POLICY "Public can read saved_routes" ON public.saved_routes FOR SELECT USING (true);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
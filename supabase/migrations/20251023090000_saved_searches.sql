@@ -0,0 +1,55 @@
+-- Searches saved from the results view. run-saved-searches re-runs every enabled one and records the sales it
+-- hasn't matched before in saved_search_matches, which the inbox reads.
+CREATE TABLE IF NOT EXISTS public.saved_searches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  -- What search-sales is asked for
+  location text NOT NULL,
+  radius int NOT NULL DEFAULT 25,
+  sources text[] NOT NULL DEFAULT '{}',
+  sale_types text[] NOT NULL DEFAULT '{}',
+  -- Result filters without the date range (see _shared/savedSearches.ts) and the keyword query
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  keywords text NOT NULL DEFAULT '',
+  enabled boolean NOT NULL DEFAULT true,
+  last_run_at timestamptz,
+  -- Why the last run found nothing or only part of what it looked for; null when every source answered
+  last_run_error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Every sale a saved search has matched, keyed by listing id
+CREATE TABLE IF NOT EXISTS public.saved_search_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  saved_search_id uuid NOT NULL REFERENCES public.saved_searches(id) ON DELETE CASCADE,
+  sale_id text NOT NULL,
+  -- The listing as the run that found it saw it
+  listing jsonb NOT NULL,
+  -- Already matching when the search was saved: kept so later runs don't report it, never shown in the inbox
+  baseline boolean NOT NULL DEFAULT false,
+  found_at timestamptz NOT NULL DEFAULT now(),
+  read_at timestamptz,
+  UNIQUE (saved_search_id, sale_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_inbox
+  ON public.saved_search_matches (saved_search_id, found_at DESC) WHERE NOT baseline;
+
+DO $$ BEGIN
+  CREATE TRIGGER set_saved_searches_updated_at
+  BEFORE UPDATE ON public.saved_searches
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.saved_search_matches ENABLE ROW LEVEL SECURITY;
+
+-- Public read-only access; the saved-searches and run-saved-searches functions write with the service role
+DO $$ BEGIN
+  CREATE POLICY "Public can read saved_searches" ON public.saved_searches FOR SELECT USING (true);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Public can read saved_search_matches" ON public.saved_search_matches FOR SELECT USING (true);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;